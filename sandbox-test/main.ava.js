@@ -1,6 +1,8 @@
 import anyTest from 'ava';
 import { Worker } from 'near-workspaces';
 import { setDefaultResultOrder } from 'dns';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
 
 setDefaultResultOrder('ipv4first');
 
@@ -12,7 +14,11 @@ const test = anyTest;
 
 const ONE_YOCTO = '1';
 const ONE_TOKEN = BigInt('1000000000000000000');
+const ONE_NEAR = BigInt('1000000000000000000000000');
+// upsert_investors charges storage to the attached deposit and refunds the excess.
+const STORAGE_DEPOSIT = { attachedDeposit: (ONE_NEAR / 10n).toString() };
 const FT_WASM_PATH = './build/mock_ft.wasm';
+const V0_WASM_PATH = './build/investor_vesting_v0.wasm';
 const MONTH = 30n * 24n * 60n * 60n * 1_000_000_000n;
 
 async function currentTimestamp(worker) {
@@ -21,6 +27,45 @@ async function currentTimestamp(worker) {
   return BigInt(ts);
 }
 
+function parseEvents(result, standard) {
+  return result.logs
+    .filter((log) => log.startsWith('EVENT_JSON:'))
+    .map((log) => JSON.parse(log.slice('EVENT_JSON:'.length)))
+    .filter((event) => event.standard === standard);
+}
+
+function sha256(...parts) {
+  return createHash('sha256').update(Buffer.concat(parts)).digest();
+}
+
+function merkleLeaf(accountId, groupId, amount) {
+  return sha256(Buffer.from([0]), Buffer.from(JSON.stringify([accountId, groupId, amount])));
+}
+
+function buildMerkleTree(leaves) {
+  const proofs = leaves.map(() => []);
+  let level = leaves.map((hash, index) => ({ hash, members: [index] }));
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const [left, right] = [level[i], level[i + 1]];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      left.members.forEach((member) => proofs[member].push(right.hash.toString('hex')));
+      right.members.forEach((member) => proofs[member].push(left.hash.toString('hex')));
+      const sorted = [left.hash, right.hash].sort(Buffer.compare);
+      next.push({
+        hash: sha256(Buffer.from([1]), ...sorted),
+        members: [...left.members, ...right.members],
+      });
+    }
+    level = next;
+  }
+  return { root: level[0].hash.toString('hex'), proofs };
+}
+
 test.beforeEach(async (t) => {
   const worker = await Worker.init();
   t.context.worker = worker;
@@ -94,15 +139,20 @@ test('investor cannot claim before cliff, owner can configure groups', async (t)
     groups,
   });
 
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: 'alice.test.near',
-        group_id: 'seed',
-        amount: (5n * ONE_TOKEN).toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: 'alice.test.near',
+          group_id: 'seed',
+          amount: (5n * ONE_TOKEN).toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -153,12 +203,17 @@ test('upsert_investors rejects duplicate accounts in the same batch', async (t)
 
   await t.throwsAsync(
     () =>
-      root.call(contract, 'upsert_investors', {
-        investors: [
-          { account_id: 'dup.test.near', group_id: 'seed', amount: (10n * ONE_TOKEN).toString() },
-          { account_id: 'dup.test.near', group_id: 'seed', amount: (5n * ONE_TOKEN).toString() },
-        ],
-      }),
+      root.call(
+        contract,
+        'upsert_investors',
+        {
+          investors: [
+            { account_id: 'dup.test.near', group_id: 'seed', amount: (10n * ONE_TOKEN).toString() },
+            { account_id: 'dup.test.near', group_id: 'seed', amount: (5n * ONE_TOKEN).toString() },
+          ],
+        },
+        STORAGE_DEPOSIT,
+      ),
     { message: /duplicate investor entry/i },
   );
 });
@@ -207,15 +262,20 @@ test('investor claims linearly after cliff, pool accounting adjusts', async (t)
 
   const allocation = 12n * ONE_TOKEN;
 
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: alice.accountId,
-        group_id: 'seed',
-        amount: allocation.toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: alice.accountId,
+          group_id: 'seed',
+          amount: allocation.toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -287,15 +347,20 @@ test('investor receives instant unlock percentage after cliff', async (t) => {
   );
 
   const allocation = 50n * ONE_TOKEN;
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: carol.accountId,
-        group_id: 'saft',
-        amount: allocation.toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: carol.accountId,
+          group_id: 'saft',
+          amount: allocation.toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -358,15 +423,20 @@ test('initial claim gated by global start date', async (t) => {
   );
 
   const allocation = 20n * ONE_TOKEN;
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: dave.accountId,
-        group_id: 'round-a',
-        amount: allocation.toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: dave.accountId,
+          group_id: 'round-a',
+          amount: allocation.toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -436,15 +506,20 @@ test('initial claim at 0% behaves like disabled', async (t) => {
   );
 
   const allocation = 30n * ONE_TOKEN;
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: erin.accountId,
-        group_id: 'round-b',
-        amount: allocation.toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: erin.accountId,
+          group_id: 'round-b',
+          amount: allocation.toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -534,15 +609,20 @@ test('owner can adjust investor allocation upwards and withdraw surplus', async
   );
 
   const initialAllocation = 20n * ONE_TOKEN;
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: bob.accountId,
-        group_id: 'strategic',
-        amount: initialAllocation.toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: bob.accountId,
+          group_id: 'strategic',
+          amount: initialAllocation.toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   await root.call(
     ft,
@@ -560,29 +640,2748 @@ test('owner can adjust investor allocation upwards and withdraw surplus', async
   const bobBalance = await ft.view('ft_balance_of', { account_id: bob.accountId });
   t.is(bobBalance, initialAllocation.toString());
 
-  await root.call(contract, 'upsert_investors', {
-    investors: [
-      {
-        account_id: bob.accountId,
-        group_id: 'strategic',
-        amount: (initialAllocation + 5n * ONE_TOKEN).toString(),
-      },
-    ],
-  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: bob.accountId,
+          group_id: 'strategic',
+          amount: (initialAllocation + 5n * ONE_TOKEN).toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
 
   const stateBeforeWithdraw = await contract.view('get_state', {});
   t.is(stateBeforeWithdraw.pool_balance, (10n * ONE_TOKEN).toString());
+  t.deepEqual(await contract.view('get_solvency', {}), {
+    pool_balance: (10n * ONE_TOKEN).toString(),
+    committed: (5n * ONE_TOKEN).toString(),
+    earmarked: '0',
+    free: (5n * ONE_TOKEN).toString(),
+    shortfall: '0',
+  });
+
+  // The 5 token bonus is committed to bob, so only the remaining surplus can be withdrawn.
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'withdraw_unallocated',
+        { amount: (10n * ONE_TOKEN).toString(), recipient: root.accountId },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /exceeds unallocated pool balance/i },
+  );
 
   await root.call(
     contract,
     'withdraw_unallocated',
-    { amount: (10n * ONE_TOKEN).toString(), recipient: root.accountId },
+    { amount: (5n * ONE_TOKEN).toString(), recipient: root.accountId },
     { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
   );
 
   const rootBalance = await ft.view('ft_balance_of', { account_id: root.accountId });
-  t.true(BigInt(rootBalance) >= 10n * ONE_TOKEN);
+  t.true(BigInt(rootBalance) >= 5n * ONE_TOKEN);
 
   const finalState = await contract.view('get_state', {});
-  t.is(finalState.pool_balance, '0');
+  t.is(finalState.pool_balance, (5n * ONE_TOKEN).toString());
+  t.is(finalState.total_committed, (5n * ONE_TOKEN).toString());
+});
+
+test('state-changing methods emit NEP-297 events on both contracts', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const cliff = 6n * MONTH;
+  const vesting = 12n * MONTH;
+
+  const initResult = await root.callRaw(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - (cliff + vesting)).toString(),
+    groups: [
+      {
+        id: 'seed',
+        cliff_duration_ns: cliff.toString(),
+        vesting_duration_ns: vesting.toString(),
+      },
+    ],
+  });
+  const [initEvent] = parseEvents(initResult, 'investor-vesting');
+  t.is(initEvent.event, 'init');
+  t.is(initEvent.version, '1.0.0');
+  t.is(initEvent.data[0].token_account_id, ft.accountId);
+  t.deepEqual(Object.keys(initEvent.data[0].groups), ['seed']);
+
+  const frank = await root.createSubAccount('frank');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: frank.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+
+  const allocation = 10n * ONE_TOKEN;
+  const upsertResult = await root.callRaw(
+    contract,
+    'upsert_investors',
+    {
+      investors: [{ account_id: frank.accountId, group_id: 'seed', amount: allocation.toString() }],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const [upsertEvent] = parseEvents(upsertResult, 'investor-vesting');
+  t.is(upsertEvent.event, 'investors_upserted');
+  t.deepEqual(upsertEvent.data[0].investors, [
+    {
+      account_id: frank.accountId,
+      group_id: 'seed',
+      previous_allocation: '0',
+      total_allocation: allocation.toString(),
+      schedule_overrides: null,
+    },
+  ]);
+
+  const fundResult = await root.callRaw(
+    ft,
+    'ft_transfer_call',
+    {
+      receiver_id: contract.accountId,
+      amount: allocation.toString(),
+      memo: 'seed funding',
+      msg: '',
+    },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+  const [ftTransfer] = parseEvents(fundResult, 'nep141');
+  t.is(ftTransfer.event, 'ft_transfer');
+  t.is(ftTransfer.data[0].new_owner_id, contract.accountId);
+  const [deposit] = parseEvents(fundResult, 'investor-vesting');
+  t.is(deposit.event, 'deposit');
+  t.deepEqual(deposit.data[0], {
+    sender_id: root.accountId,
+    token_id: ft.accountId,
+    amount: allocation.toString(),
+    refunded: '0',
+    msg: '',
+  });
+
+  const claimResult = await frank.callRaw(
+    contract,
+    'claim',
+    {},
+    { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+  );
+  const vestingEvents = parseEvents(claimResult, 'investor-vesting').map((event) => event.event);
+  t.deepEqual(vestingEvents, ['claim_started', 'claim_completed']);
+  const [claimTransfer] = parseEvents(claimResult, 'nep141');
+  t.is(claimTransfer.data[0].old_owner_id, contract.accountId);
+  t.is(claimTransfer.data[0].new_owner_id, frank.accountId);
+  t.is(claimTransfer.data[0].amount, allocation.toString());
+});
+
+test('investors and group aggregates are enumerable with pagination', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: now.toString(),
+    groups: [
+      {
+        id: 'seed',
+        cliff_duration_ns: (6n * MONTH).toString(),
+        vesting_duration_ns: (12n * MONTH).toString(),
+      },
+      {
+        id: 'private',
+        cliff_duration_ns: (6n * MONTH).toString(),
+        vesting_duration_ns: (12n * MONTH).toString(),
+      },
+    ],
+  });
+
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'a.test.near', group_id: 'seed', amount: (1n * ONE_TOKEN).toString() },
+        { account_id: 'b.test.near', group_id: 'seed', amount: (2n * ONE_TOKEN).toString() },
+        { account_id: 'c.test.near', group_id: 'private', amount: (3n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  t.is(await contract.view('get_investor_count', {}), 3);
+
+  const firstPage = await contract.view('get_investors', { from_index: 0, limit: 2 });
+  const secondPage = await contract.view('get_investors', { from_index: 2, limit: 2 });
+  t.is(firstPage.length, 2);
+  t.is(secondPage.length, 1);
+  t.deepEqual(
+    [...firstPage, ...secondPage].map((investor) => investor.account_id).sort(),
+    ['a.test.near', 'b.test.near', 'c.test.near'],
+  );
+
+  // Moving an investor between groups updates both group indexes and aggregates.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'b.test.near', group_id: 'private', amount: (4n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  const seedInvestors = await contract.view('get_investors_by_group', { group_id: 'seed' });
+  t.deepEqual(seedInvestors, [
+    {
+      account_id: 'a.test.near',
+      token_id: ft.accountId,
+      group_id: 'seed',
+      total_allocation: (1n * ONE_TOKEN).toString(),
+      claimed: '0',
+      pending: '0',
+      receiver_id: null,
+    },
+  ]);
+
+  const privateStats = await contract.view('get_group_stats', { group_id: 'private' });
+  t.is(privateStats.investor_count, 2);
+  t.is(privateStats.total_allocation, (7n * ONE_TOKEN).toString());
+  t.is(privateStats.total_claimed, '0');
+
+  const groups = await contract.view('get_groups', {});
+  t.deepEqual(
+    groups.map((group) => [group.group_id, group.investor_count]),
+    [
+      ['seed', 1],
+      ['private', 2],
+    ],
+  );
+
+  await t.throwsAsync(() => contract.view('get_investors', { limit: 1000 }), {
+    message: /limit must be between/i,
+  });
+});
+
+test('owner revokes unvested allocations only in revocable groups', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const cliff = 6n * MONTH;
+  const vesting = 12n * MONTH;
+
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - (cliff + vesting / 2n)).toString(),
+    groups: [
+      {
+        id: 'advisors',
+        cliff_duration_ns: cliff.toString(),
+        vesting_duration_ns: vesting.toString(),
+        revocable: true,
+      },
+      {
+        id: 'seed',
+        cliff_duration_ns: cliff.toString(),
+        vesting_duration_ns: vesting.toString(),
+      },
+    ],
+  });
+
+  const state = await contract.view('get_state', {});
+  t.true(state.groups.advisors.revocable);
+  t.false(state.groups.seed.revocable);
+
+  const grace = await root.createSubAccount('grace');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: grace.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+
+  const allocation = 12n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'frozen.test.near', group_id: 'advisors', amount: allocation.toString() },
+        { account_id: grace.accountId, group_id: 'advisors', amount: allocation.toString() },
+        { account_id: 'seed.test.near', group_id: 'seed', amount: allocation.toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    {
+      receiver_id: contract.accountId,
+      amount: (allocation * 3n).toString(),
+      memo: 'funding',
+      msg: '',
+    },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'revoke_investor',
+        { account_id: 'seed.test.near', mode: 'freeze' },
+        { attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /not revocable/i },
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'configure_groups', {
+        groups: [
+          { id: 'advisors', cliff_duration_ns: cliff.toString(), vesting_duration_ns: '0' },
+          {
+            id: 'seed',
+            cliff_duration_ns: cliff.toString(),
+            vesting_duration_ns: vesting.toString(),
+            revocable: true,
+          },
+        ],
+      }),
+    { message: /cannot be made revocable/i },
+  );
+
+  await root.call(
+    contract,
+    'revoke_investor',
+    { account_id: 'frozen.test.near', mode: 'freeze' },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  const frozen = await contract.view('get_investor', { account_id: 'frozen.test.near' });
+  const frozenTotal = BigInt(frozen.totalAllocation);
+  t.truthy(frozen.revokedAtNs);
+  t.is(BigInt(frozen.revokedAmount) + frozenTotal, allocation);
+  const expectedHalf = allocation / 2n;
+  const diff = frozenTotal > expectedHalf ? frozenTotal - expectedHalf : expectedHalf - frozenTotal;
+  t.true(diff <= allocation / 200n);
+  t.is(
+    await contract.view('get_claimable', { account_id: 'frozen.test.near' }),
+    frozen.totalAllocation,
+  );
+  // Before the revocation the original curve still applies; afterwards it stays frozen.
+  const tge = now - (cliff + vesting / 2n);
+  const vestedAt = (timestamp) =>
+    contract.view('get_vested_at', {
+      account_id: 'frozen.test.near',
+      timestamp_ns: timestamp.toString(),
+    });
+  t.is(await vestedAt(tge + cliff), '0');
+  t.is(await vestedAt(tge + cliff + vesting / 4n), (allocation / 4n).toString());
+  t.is(await vestedAt(tge + cliff + vesting), frozen.totalAllocation);
+
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'upsert_investors',
+        {
+          investors: [
+            { account_id: 'frozen.test.near', group_id: 'advisors', amount: allocation.toString() },
+          ],
+        },
+        STORAGE_DEPOSIT,
+      ),
+    { message: /has been revoked/i },
+  );
+
+  // A settlement is a payout, so a pause on grace's claims holds it back.
+  const settleArgs = { account_id: grace.accountId, mode: 'settle' };
+  const revokeArgs = { attachedDeposit: ONE_YOCTO, gas: '150000000000000' };
+  await root.call(contract, 'pause', {
+    scope: 'account_claims',
+    target: grace.accountId,
+    reason: 'review',
+  });
+  await t.throwsAsync(() => root.call(contract, 'revoke_investor', settleArgs, revokeArgs), {
+    message: /paused \(account_claims/i,
+  });
+  await root.call(contract, 'unpause', { scope: 'account_claims', target: grace.accountId });
+  await root.call(contract, 'revoke_investor', settleArgs, revokeArgs);
+  const settled = await contract.view('get_investor', { account_id: grace.accountId });
+  t.is(settled.claimed, settled.totalAllocation);
+  t.is(await ft.view('ft_balance_of', { account_id: grace.accountId }), settled.claimed);
+
+  const advisors = await contract.view('get_group_stats', { group_id: 'advisors' });
+  t.is(
+    advisors.total_allocation,
+    (BigInt(frozen.totalAllocation) + BigInt(settled.totalAllocation)).toString(),
+  );
+});
+
+test('per-investor schedule overrides replace group defaults', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  const customStart = now - 6n * MONTH;
+
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: now.toString(),
+    groups: [
+      {
+        id: 'seed',
+        cliff_duration_ns: (12n * MONTH).toString(),
+        vesting_duration_ns: vesting.toString(),
+      },
+    ],
+  });
+
+  const allocation = 10n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'default.test.near', group_id: 'seed', amount: allocation.toString() },
+        {
+          account_id: 'custom.test.near',
+          group_id: 'seed',
+          amount: allocation.toString(),
+          schedule: {
+            start_timestamp_ns: customStart.toString(),
+            cliff_duration_ns: '0',
+            initial_claim_basis_points: '1000',
+          },
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  const custom = await contract.view('get_investor', { account_id: 'custom.test.near' });
+  t.deepEqual(custom.schedule, {
+    startTimestampNs: customStart.toString(),
+    cliffDurationNs: '0',
+    vestingDurationNs: vesting.toString(),
+    initialUnlockBasisPoints: '0',
+    initialClaimBasisPoints: '1000',
+    initialClaimAvailableTimestampNs: '0',
+  });
+  const defaults = await contract.view('get_investor', { account_id: 'default.test.near' });
+  t.is(defaults.schedule.startTimestampNs, now.toString());
+  t.is(defaults.schedule.cliffDurationNs, (12n * MONTH).toString());
+
+  // 10% TGE claim plus half of the remaining 90% vested linearly.
+  const expected = allocation / 10n + (allocation * 9n) / 20n;
+  const claimable = BigInt(
+    await contract.view('get_claimable', { account_id: 'custom.test.near' }),
+  );
+  const diff = claimable > expected ? claimable - expected : expected - claimable;
+  t.true(diff <= allocation / 200n);
+  t.is(await contract.view('get_claimable', { account_id: 'default.test.near' }), '0');
+
+  // Omitting `schedule` keeps existing overrides; `null` clears them.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'custom.test.near', group_id: 'seed', amount: (2n * allocation).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const raised = await contract.view('get_investor', { account_id: 'custom.test.near' });
+  t.is(raised.schedule.cliffDurationNs, '0');
+
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        {
+          account_id: 'custom.test.near',
+          group_id: 'seed',
+          amount: (2n * allocation).toString(),
+          schedule: null,
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const cleared = await contract.view('get_investor', { account_id: 'custom.test.near' });
+  t.is(cleared.scheduleOverrides, undefined);
+  t.is(cleared.schedule.cliffDurationNs, (12n * MONTH).toString());
+
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'upsert_investors',
+        {
+          investors: [
+            {
+              account_id: 'bad.test.near',
+              group_id: 'seed',
+              amount: allocation.toString(),
+              schedule: { initial_unlock_basis_points: '10001' },
+            },
+          ],
+        },
+        STORAGE_DEPOSIT,
+      ),
+    { message: /must be between 0 and 10000/i },
+  );
+});
+
+test('groups can vest along step or interpolated checkpoint curves', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const quarterly = [1n, 2n, 3n, 4n].map((quarter) => ({
+    offset_ns: (quarter * 3n * MONTH).toString(),
+    cumulative_basis_points: (quarter * 2500n).toString(),
+  }));
+
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 7n * MONTH).toString(),
+    groups: [
+      { id: 'strategic', unlock_checkpoints: quarterly, unlock_mode: 'step' },
+      {
+        id: 'team',
+        unlock_checkpoints: [
+          { offset_ns: (12n * MONTH).toString(), cumulative_basis_points: '4000' },
+          { offset_ns: (24n * MONTH).toString(), cumulative_basis_points: '10000' },
+        ],
+        unlock_mode: 'interpolated',
+      },
+    ],
+  });
+
+  const allocation = 100n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'strategic.test.near', group_id: 'strategic', amount: allocation.toString() },
+        {
+          account_id: 'team.test.near',
+          group_id: 'team',
+          amount: allocation.toString(),
+          schedule: { start_timestamp_ns: (now - 18n * MONTH).toString() },
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  // Two quarters have passed: exactly 50% under the step curve.
+  t.is(
+    await contract.view('get_claimable', { account_id: 'strategic.test.near' }),
+    (allocation / 2n).toString(),
+  );
+
+  // Halfway between 40% at 12 months and 100% at 24 months: ~70%.
+  const teamClaimable = BigInt(
+    await contract.view('get_claimable', { account_id: 'team.test.near' }),
+  );
+  const expected = (allocation * 7n) / 10n;
+  t.true(teamClaimable >= expected);
+  t.true(teamClaimable - expected <= allocation / 1000n);
+
+  const investor = await contract.view('get_investor', { account_id: 'team.test.near' });
+  t.is(investor.schedule.unlockMode, 'interpolated');
+  t.is(investor.schedule.unlockCheckpoints.length, 2);
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'configure_groups', {
+        groups: [
+          {
+            id: 'strategic',
+            unlock_checkpoints: [
+              { offset_ns: (6n * MONTH).toString(), cumulative_basis_points: '5000' },
+              { offset_ns: (3n * MONTH).toString(), cumulative_basis_points: '10000' },
+            ],
+          },
+        ],
+      }),
+    { message: /strictly increasing/i },
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'configure_groups', {
+        groups: [
+          {
+            id: 'strategic',
+            unlock_checkpoints: [
+              { offset_ns: (6n * MONTH).toString(), cumulative_basis_points: '9000' },
+            ],
+          },
+        ],
+      }),
+    { message: /must end at 10000/i },
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'configure_groups', {
+        groups: [{ id: 'strategic', unlock_checkpoints: quarterly, cliff_duration_ns: '0' }],
+      }),
+    { message: /cannot be combined with unlock_checkpoints/i },
+  );
+});
+
+test('group changes never orphan investors or reduce vested amounts', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const cliff = 6n * MONTH;
+  const vesting = 12n * MONTH;
+
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - (cliff + vesting / 2n)).toString(),
+    groups: [
+      { id: 'seed', cliff_duration_ns: cliff.toString(), vesting_duration_ns: vesting.toString() },
+    ],
+  });
+
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'a.test.near', group_id: 'seed', amount: (10n * ONE_TOKEN).toString() },
+        {
+          account_id: 'b.test.near',
+          group_id: 'seed',
+          amount: (10n * ONE_TOKEN).toString(),
+          schedule: { start_timestamp_ns: (now - 3n * MONTH).toString(), cliff_duration_ns: '0' },
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'configure_groups', {
+        groups: [
+          {
+            id: 'other',
+            cliff_duration_ns: cliff.toString(),
+            vesting_duration_ns: vesting.toString(),
+          },
+        ],
+      }),
+    { message: /still has investors/i },
+  );
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'update_group', {
+        group: {
+          id: 'seed',
+          cliff_duration_ns: cliff.toString(),
+          vesting_duration_ns: (2n * vesting).toString(),
+        },
+      }),
+    { message: /would reduce already vested amounts/i },
+  );
+
+  // Dropping the cliff raises the base schedule from 50% to 60%, but b's own schedule keeps
+  // no cliff and would fall from 25% to 15% over the longer period.
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'update_group', {
+        group: {
+          id: 'seed',
+          cliff_duration_ns: '0',
+          vesting_duration_ns: (20n * MONTH).toString(),
+        },
+      }),
+    { message: /would reduce already vested amounts/i },
+  );
+
+  // Shortening the vesting period only accelerates vesting, so it is accepted.
+  await root.call(contract, 'update_group', {
+    group: {
+      id: 'seed',
+      cliff_duration_ns: cliff.toString(),
+      vesting_duration_ns: (vesting / 2n).toString(),
+    },
+  });
+
+  await root.call(contract, 'add_group', {
+    group: { id: 'seed-v2', cliff_duration_ns: '0', vesting_duration_ns: '0' },
+  });
+
+  await t.throwsAsync(() => root.call(contract, 'remove_group', { group_id: 'seed' }), {
+    message: /provide target_group_id/i,
+  });
+
+  const firstPass = await root.call(contract, 'remove_group', {
+    group_id: 'seed',
+    target_group_id: 'seed-v2',
+    limit: 1,
+  });
+  t.deepEqual(firstPass, { moved: 1, remaining: 1, removed: false });
+
+  const secondPass = await root.call(contract, 'remove_group', {
+    group_id: 'seed',
+    target_group_id: 'seed-v2',
+  });
+  t.deepEqual(secondPass, { moved: 1, remaining: 0, removed: true });
+
+  const state = await contract.view('get_state', {});
+  t.deepEqual(Object.keys(state.groups), ['seed-v2']);
+  const moved = await contract.view('get_investors_by_group', { group_id: 'seed-v2' });
+  t.is(moved.length, 2);
+
+  const history = await contract.view('get_group_history', { group_id: 'seed' });
+  t.deepEqual(history.map((entry) => entry.action), ['added', 'updated', 'removed']);
+  t.is(history[1].previous.vestingDurationNs, vesting.toString());
+  t.is(history[1].current.vestingDurationNs, (vesting / 2n).toString());
+  t.is(history[2].current, null);
+});
+
+test('ownership moves in two steps and roles gate privileged methods', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const cliff = 6n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * cliff).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: cliff.toString(), vesting_duration_ns: '0' }],
+  });
+
+  const manager = await root.createSubAccount('manager');
+  const operator = await root.createSubAccount('operator');
+  const multisig = await root.createSubAccount('multisig');
+  const investor = await root.createSubAccount('investor');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: investor.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+
+  const allocation = 3n * ONE_TOKEN;
+  const investors = [
+    { account_id: investor.accountId, group_id: 'seed', amount: allocation.toString() },
+  ];
+  await t.throwsAsync(
+    () => manager.call(contract, 'upsert_investors', { investors }, STORAGE_DEPOSIT),
+    { message: /only owner or allocation_manager/i },
+  );
+
+  await root.call(contract, 'grant_role', {
+    role: 'allocation_manager',
+    account_id: manager.accountId,
+  });
+  await root.call(contract, 'grant_role', { role: 'operator', account_id: operator.accountId });
+  await manager.call(contract, 'upsert_investors', { investors }, STORAGE_DEPOSIT);
+
+  t.deepEqual(await contract.view('get_role_members', { role: 'operator' }), [
+    operator.accountId,
+  ]);
+  const roles = await contract.view('get_roles', {});
+  t.deepEqual(roles.allocation_manager, [manager.accountId]);
+  t.deepEqual(roles.treasury, []);
+
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: 'funding', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  await t.throwsAsync(
+    () =>
+      manager.call(
+        contract,
+        'claim',
+        { account_id: investor.accountId },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /only owner or operators/i },
+  );
+  await operator.call(
+    contract,
+    'claim',
+    { account_id: investor.accountId },
+    { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+  );
+  t.is(await ft.view('ft_balance_of', { account_id: investor.accountId }), allocation.toString());
+
+  // Operators may pause claims but not shift everyone's vesting schedule.
+  await t.throwsAsync(
+    () =>
+      operator.call(contract, 'pause', {
+        scope: 'claims',
+        reason: 'incident',
+        exclude_from_vesting: true,
+      }),
+    { message: /Only owner or config_admin can exclude paused time/ },
+  );
+  await operator.call(contract, 'pause', { scope: 'claims', reason: 'incident' });
+
+  await root.call(contract, 'revoke_role', { role: 'operator', account_id: operator.accountId });
+  t.false(await contract.view('has_role', { role: 'operator', account_id: operator.accountId }));
+
+  await root.call(contract, 'propose_owner', { new_owner: multisig.accountId });
+  t.is((await contract.view('get_state', {})).pending_owner, multisig.accountId);
+  await t.throwsAsync(() => operator.call(contract, 'accept_owner', {}), {
+    message: /only the pending owner/i,
+  });
+  await multisig.call(contract, 'accept_owner', {});
+
+  const state = await contract.view('get_state', {});
+  t.is(state.owner, multisig.accountId);
+  t.is(state.pending_owner, null);
+  await t.throwsAsync(
+    () => root.call(contract, 'propose_owner', { new_owner: root.accountId }),
+    { message: /only owner/i },
+  );
+});
+
+test('pauses block claims, funding and withdrawals per scope', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 3_600n * 1_000_000_000n; // one hour, so accrual is visible between blocks
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - vesting / 4n).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+
+  const henry = await root.createSubAccount('henry');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: henry.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const allocation = 100n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [{ account_id: henry.accountId, group_id: 'seed', amount: allocation.toString() }],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: 'funding', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  await root.call(contract, 'pause', {
+    scope: 'account_claims',
+    target: henry.accountId,
+    reason: 'key compromise investigation',
+    exclude_from_vesting: true,
+  });
+  const state = await contract.view('get_state', {});
+  t.is(state.pauses.length, 1);
+  t.is(state.pauses[0].reason, 'key compromise investigation');
+  t.true(state.pauses[0].exclude_from_vesting);
+
+  await t.throwsAsync(
+    () => henry.call(contract, 'claim', {}, { gas: '150000000000000', attachedDeposit: ONE_YOCTO }),
+    { message: /paused \(account_claims/i },
+  );
+
+  // Vesting is frozen while the excluded pause is active.
+  const frozen = await contract.view('get_claimable', { account_id: henry.accountId });
+  await root.call(contract, 'pause', { scope: 'funding', reason: 'token migration' });
+  t.is(await contract.view('get_claimable', { account_id: henry.accountId }), frozen);
+
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: ONE_TOKEN.toString(), memo: 'extra', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+  t.is((await contract.view('get_state', {})).total_deposited, allocation.toString());
+  t.is(await ft.view('ft_balance_of', { account_id: contract.accountId }), allocation.toString());
+
+  await root.call(contract, 'pause', { scope: 'withdrawals', reason: 'audit' });
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'withdraw_unallocated',
+        { amount: ONE_TOKEN.toString() },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /paused \(withdrawals\)/i },
+  );
+
+  await root.call(contract, 'unpause', { scope: 'account_claims', target: henry.accountId });
+  await henry.call(contract, 'claim', {}, { gas: '150000000000000', attachedDeposit: ONE_YOCTO });
+  const claimed = BigInt(await ft.view('ft_balance_of', { account_id: henry.accountId }));
+  t.true(claimed >= BigInt(frozen));
+  // The paused period is still excluded after unpausing.
+  t.true(claimed < allocation / 4n + allocation / 20n);
+});
+
+test('overlapping excluded pauses only exclude their combined time once', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 3_600n * 1_000_000_000n;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: accounts.ft.accountId,
+    tge_timestamp_ns: (now - vesting / 4n).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'nora.test.near', group_id: 'seed', amount: (100n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const vested = async () => {
+    const [status] = await contract.view('get_investor_status', {
+      account_ids: ['nora.test.near'],
+    });
+    return BigInt(status.vested);
+  };
+
+  // The account pause lies entirely inside the global one.
+  await root.call(contract, 'pause', {
+    scope: 'claims',
+    reason: 'incident',
+    exclude_from_vesting: true,
+  });
+  const frozen = await vested();
+  await root.call(contract, 'pause', {
+    scope: 'account_claims',
+    target: 'nora.test.near',
+    reason: 'kyc',
+    exclude_from_vesting: true,
+  });
+  await root.call(contract, 'unpause', { scope: 'account_claims', target: 'nora.test.near' });
+  t.is(await vested(), frozen);
+  await root.call(contract, 'unpause', { scope: 'claims' });
+  // Counting the nested pause twice would push vesting back below the frozen amount.
+  t.true((await vested()) >= frozen);
+});
+
+test('merkle allocations materialise on first claim with a valid proof', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - MONTH).toString(),
+    groups: [{ id: 'community', cliff_duration_ns: '0', vesting_duration_ns: '0' }],
+  });
+
+  const ivy = await root.createSubAccount('ivy');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: ivy.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+
+  const entries = [
+    [ivy.accountId, 'community', (4n * ONE_TOKEN).toString()],
+    ['x.test.near', 'community', (1n * ONE_TOKEN).toString()],
+    ['y.test.near', 'community', (2n * ONE_TOKEN).toString()],
+  ];
+  const tree = buildMerkleTree(entries.map((entry) => merkleLeaf(...entry)));
+  const allocation = {
+    root: tree.root,
+    group_id: 'community',
+    amount: entries[0][2],
+    proof: tree.proofs[0],
+  };
+
+  await root.call(contract, 'add_merkle_root', { group_id: 'community', root: tree.root });
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (7n * ONE_TOKEN).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  t.deepEqual(
+    await contract.view('verify_merkle_proof', { account_id: ivy.accountId, ...allocation }),
+    { valid: true, root_active: true, materialized: false },
+  );
+  const forged = { ...allocation, amount: (40n * ONE_TOKEN).toString() };
+  t.false(
+    (await contract.view('verify_merkle_proof', { account_id: ivy.accountId, ...forged })).valid,
+  );
+  await t.throwsAsync(
+    () =>
+      ivy.call(
+        contract,
+        'claim',
+        { merkle_allocation: forged },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /invalid merkle proof/i },
+  );
+  t.is(await contract.view('get_investor', { account_id: ivy.accountId }), null);
+
+  // The claimant pays for the record it materialises.
+  await t.throwsAsync(
+    () =>
+      ivy.call(
+        contract,
+        'claim',
+        { merkle_allocation: allocation },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /attach at least \d+ yoctoNEAR to cover storage/i },
+  );
+  await ivy.call(
+    contract,
+    'claim',
+    { merkle_allocation: allocation },
+    { gas: '150000000000000', attachedDeposit: STORAGE_DEPOSIT.attachedDeposit },
+  );
+  t.is(await ft.view('ft_balance_of', { account_id: ivy.accountId }), entries[0][2]);
+  const investor = await contract.view('get_investor', { account_id: ivy.accountId });
+  t.is(investor.totalAllocation, entries[0][2]);
+  t.true(
+    (await contract.view('verify_merkle_proof', { account_id: ivy.accountId, ...allocation }))
+      .materialized,
+  );
+
+  // A leaf for an account that already vests in the group tops its allocation up.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'y.test.near', group_id: 'community', amount: ONE_TOKEN.toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    contract,
+    'claim',
+    {
+      account_id: 'y.test.near',
+      merkle_allocation: { ...allocation, amount: entries[2][2], proof: tree.proofs[2] },
+    },
+    { gas: '150000000000000', attachedDeposit: STORAGE_DEPOSIT.attachedDeposit },
+  );
+  t.is(
+    (await contract.view('get_investor', { account_id: 'y.test.near' })).totalAllocation,
+    (3n * ONE_TOKEN).toString(),
+  );
+
+  // A later root may repeat the same leaf for a new tranche; each root materialises it once.
+  const tranche = buildMerkleTree(
+    [entries[2], ['z.test.near', 'community', ONE_TOKEN.toString()]].map((entry) =>
+      merkleLeaf(...entry),
+    ),
+  );
+  const yTranche = {
+    root: tranche.root,
+    group_id: 'community',
+    amount: entries[2][2],
+    proof: tranche.proofs[0],
+  };
+  await root.call(contract, 'add_merkle_root', { group_id: 'community', root: tranche.root });
+  t.false(
+    (await contract.view('verify_merkle_proof', { account_id: 'y.test.near', ...yTranche }))
+      .materialized,
+  );
+  await root.call(
+    contract,
+    'claim',
+    { account_id: 'y.test.near', merkle_allocation: yTranche },
+    { gas: '150000000000000', attachedDeposit: STORAGE_DEPOSIT.attachedDeposit },
+  );
+  t.is(
+    (await contract.view('get_investor', { account_id: 'y.test.near' })).totalAllocation,
+    (5n * ONE_TOKEN).toString(),
+  );
+  t.true(
+    (await contract.view('verify_merkle_proof', { account_id: 'y.test.near', ...yTranche }))
+      .materialized,
+  );
+
+  await root.call(contract, 'revoke_merkle_root', { root: tree.root });
+  const [rootView] = await contract.view('get_merkle_roots', {});
+  t.is(rootView.group_id, 'community');
+  t.truthy(rootView.revoked_at_ns);
+
+  const xAllocation = {
+    root: tree.root,
+    group_id: 'community',
+    amount: entries[1][2],
+    proof: tree.proofs[1],
+  };
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'claim',
+        { account_id: 'x.test.near', merkle_allocation: xAllocation },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /merkle root has been revoked/i },
+  );
+});
+
+test('allocations can be split or moved and paid to a separate receiver', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - vesting / 2n).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+
+  const [jack, custody, wallet] = await Promise.all(
+    ['jack', 'custody', 'wallet'].map((name) => root.createSubAccount(name)),
+  );
+  for (const account of [jack, custody, wallet]) {
+    await root.call(
+      ft,
+      'storage_deposit',
+      { account_id: account.accountId },
+      { attachedDeposit: '1000000000000000000000' },
+    );
+  }
+
+  const allocation = 100n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [{ account_id: jack.accountId, group_id: 'seed', amount: allocation.toString() }],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  await jack.call(
+    contract,
+    'set_receiver',
+    { receiver_id: wallet.accountId },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  await jack.call(contract, 'claim', {}, { gas: '150000000000000', attachedDeposit: ONE_YOCTO });
+  const jackRecord = await contract.view('get_investor', { account_id: jack.accountId });
+  t.is(await ft.view('ft_balance_of', { account_id: wallet.accountId }), jackRecord.claimed);
+  t.is(await ft.view('ft_balance_of', { account_id: jack.accountId }), '0');
+
+  // Split a quarter of the allocation; claimed tokens follow pro rata.
+  await t.throwsAsync(
+    () => jack.call(contract, 'transfer_allocation', { new_account_id: custody.accountId }),
+    { message: /at least 1 yoctoNEAR/ },
+  );
+  // A split creates a record, so the caller pays for its storage.
+  const splitArgs = { new_account_id: custody.accountId, amount: (allocation / 4n).toString() };
+  await t.throwsAsync(
+    () =>
+      jack.call(contract, 'transfer_allocation', splitArgs, { attachedDeposit: ONE_YOCTO }),
+    { message: /attach at least \d+ yoctoNEAR to cover storage/i },
+  );
+  await jack.call(contract, 'transfer_allocation', splitArgs, STORAGE_DEPOSIT);
+  const split = await contract.view('get_investor', { account_id: custody.accountId });
+  const remaining = await contract.view('get_investor', { account_id: jack.accountId });
+  t.is(split.totalAllocation, (allocation / 4n).toString());
+  t.is(split.claimed, (BigInt(jackRecord.claimed) / 4n).toString());
+  t.is(split.receiverId, undefined);
+  t.is(BigInt(split.claimed) + BigInt(remaining.claimed), BigInt(jackRecord.claimed));
+  t.is(remaining.receiverId, wallet.accountId);
+
+  await t.throwsAsync(
+    () =>
+      custody.call(
+        contract,
+        'transfer_allocation',
+        { account_id: jack.accountId, new_account_id: 'other.test.near' },
+        { attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /only owner or allocation_manager/i },
+  );
+
+  // The owner moves everything that is left, e.g. after a key loss.
+  await root.call(
+    contract,
+    'transfer_allocation',
+    { account_id: jack.accountId, new_account_id: 'recovered.test.near' },
+    STORAGE_DEPOSIT,
+  );
+  t.is(await contract.view('get_investor', { account_id: jack.accountId }), null);
+  const recovered = await contract.view('get_investor', { account_id: 'recovered.test.near' });
+  t.is(recovered.totalAllocation, remaining.totalAllocation);
+  t.is(recovered.claimed, remaining.claimed);
+  t.is(await contract.view('get_investor_count', {}), 2);
+});
+
+test('strict upserts refuse to allocate beyond the funded pool', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: now.toString(),
+    groups: [
+      {
+        id: 'seed',
+        cliff_duration_ns: (6n * MONTH).toString(),
+        vesting_duration_ns: (6n * MONTH).toString(),
+      },
+    ],
+  });
+
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (10n * ONE_TOKEN).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      strict: true,
+      investors: [
+        { account_id: 'k.test.near', group_id: 'seed', amount: (6n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'upsert_investors',
+        {
+          strict: true,
+          investors: [
+            { account_id: 'l.test.near', group_id: 'seed', amount: (5n * ONE_TOKEN).toString() },
+          ],
+        },
+        STORAGE_DEPOSIT,
+      ),
+    { message: /exceed the funded pool balance/i },
+  );
+
+  // Without strict mode the shortfall is accepted and reported.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'l.test.near', group_id: 'seed', amount: (5n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const solvency = await contract.view('get_solvency', {});
+  t.is(solvency.committed, (11n * ONE_TOKEN).toString());
+  t.is(solvency.free, '0');
+  t.is(solvency.shortfall, (1n * ONE_TOKEN).toString());
+
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'withdraw_unallocated',
+        { amount: '1' },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: /exceeds unallocated pool balance/i },
+  );
+});
+
+test('partial claims and shortfall policies turn unpaid amounts into IOUs', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+
+  const [mia, noah] = await Promise.all(['mia', 'noah'].map((name) => root.createSubAccount(name)));
+  for (const account of [mia, noah]) {
+    await root.call(
+      ft,
+      'storage_deposit',
+      { account_id: account.accountId },
+      { attachedDeposit: '1000000000000000000000' },
+    );
+  }
+  const allocation = 100n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [mia, noah].map((account) => ({
+        account_id: account.accountId,
+        group_id: 'seed',
+        amount: allocation.toString(),
+      })),
+    },
+    STORAGE_DEPOSIT,
+  );
+  // Only half of the committed tokens are funded.
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  await mia.call(contract, 'claim', { amount: (10n * ONE_TOKEN).toString() }, claimArgs);
+  t.is(await ft.view('ft_balance_of', { account_id: mia.accountId }), (10n * ONE_TOKEN).toString());
+  await t.throwsAsync(
+    () => mia.call(contract, 'claim', { amount: allocation.toString() }, claimArgs),
+    { message: /exceeds claimable amount/i },
+  );
+  await t.throwsAsync(() => noah.call(contract, 'claim', {}, claimArgs), {
+    message: /insufficient available pool balance/i,
+  });
+
+  // Pro rata: the pool covers 90 of 190 outstanding tokens, so noah gets that share of 100.
+  await root.call(contract, 'configure_shortfall_policy', { policy: 'pro_rata' });
+  const noahShare = (allocation * 90n * ONE_TOKEN) / (190n * ONE_TOKEN);
+  const noahClaim = await noah.callRaw(contract, 'claim', {}, claimArgs);
+  t.is(await ft.view('ft_balance_of', { account_id: noah.accountId }), noahShare.toString());
+  const [iouEvent] = parseEvents(noahClaim, 'investor-vesting').filter(
+    (event) => event.event === 'iou_recorded',
+  );
+  t.is(iouEvent.data[0].amount, (allocation - noahShare).toString());
+  const noahRecord = await contract.view('get_investor', { account_id: noah.accountId });
+  t.is(noahRecord.claimed, allocation.toString());
+
+  // Pay available: the rest of the pool is reserved for noah's IOU, so mia's claim is all IOU.
+  await root.call(contract, 'configure_shortfall_policy', { policy: 'pay_available' });
+  await mia.call(contract, 'claim', {}, claimArgs);
+  t.is(await ft.view('ft_balance_of', { account_id: mia.accountId }), (10n * ONE_TOKEN).toString());
+  t.is(
+    (await contract.view('get_investor', { account_id: mia.accountId })).iou,
+    (90n * ONE_TOKEN).toString(),
+  );
+  let state = await contract.view('get_state', {});
+  t.is(state.pool_balance, (90n * ONE_TOKEN - noahShare).toString());
+  t.is(state.total_iou, (190n * ONE_TOKEN - noahShare).toString());
+
+  // Topping up the pool pays the IOUs before anything else.
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '300000000000000' },
+  );
+  t.is(await ft.view('ft_balance_of', { account_id: mia.accountId }), allocation.toString());
+  t.is(await ft.view('ft_balance_of', { account_id: noah.accountId }), allocation.toString());
+  state = await contract.view('get_state', {});
+  t.is(state.total_iou, '0');
+  t.is(state.pool_balance, '0');
+  t.is((await contract.view('get_investor', { account_id: mia.accountId })).iou, undefined);
+});
+
+test('operators distribute vested tokens to a page of investors at a time', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+
+  const investors = await Promise.all(
+    ['olga', 'pete', 'quinn'].map((name) => root.createSubAccount(name)),
+  );
+  for (const account of investors) {
+    await root.call(
+      ft,
+      'storage_deposit',
+      { account_id: account.accountId },
+      { attachedDeposit: '1000000000000000000000' },
+    );
+  }
+  const allocation = 10n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: investors.map((account) => ({
+        account_id: account.accountId,
+        group_id: 'seed',
+        amount: allocation.toString(),
+      })),
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (3n * allocation).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  const distributeArgs = { gas: '300000000000000', attachedDeposit: ONE_YOCTO };
+  await t.throwsAsync(
+    () => investors[0].call(contract, 'distribute', { group_id: 'seed' }, distributeArgs),
+    { message: /operator/i },
+  );
+
+  const firstPage = await root.call(
+    contract,
+    'distribute',
+    { group_id: 'seed', limit: 2 },
+    distributeArgs,
+  );
+  t.is(firstPage.distributed.length, 2);
+  t.deepEqual(firstPage.skipped, []);
+  t.is(firstPage.next_index, 2);
+
+  const secondPage = await root.call(
+    contract,
+    'distribute',
+    { group_id: 'seed', from_index: firstPage.next_index, limit: 2 },
+    distributeArgs,
+  );
+  t.is(secondPage.distributed.length, 1);
+  t.is(secondPage.next_index, null);
+
+  for (const account of investors) {
+    t.is(await ft.view('ft_balance_of', { account_id: account.accountId }), allocation.toString());
+  }
+  t.is((await contract.view('get_state', {})).total_claimed, (3n * allocation).toString());
+
+  // Explicit lists skip accounts without an allocation or with nothing left to claim.
+  const explicit = await root.call(
+    contract,
+    'distribute',
+    { account_ids: [investors[0].accountId, 'unknown.test.near'] },
+    distributeArgs,
+  );
+  t.deepEqual(explicit.distributed, []);
+  t.deepEqual(explicit.skipped, [investors[0].accountId, 'unknown.test.near']);
+  t.is(explicit.next_index, null);
+});
+
+test('deposit messages earmark group funds, allocate atomically or refund', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [
+      { id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() },
+      { id: 'team', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() },
+    ],
+  });
+  const [rita, sam] = await Promise.all(
+    ['rita', 'sam'].map((name) => root.createSubAccount(name)),
+  );
+  for (const account of [rita, sam]) {
+    await root.call(
+      ft,
+      'storage_deposit',
+      { account_id: account.accountId },
+      { attachedDeposit: '1000000000000000000000' },
+    );
+  }
+  const fund = (amount, msg) =>
+    root.callRaw(
+      ft,
+      'ft_transfer_call',
+      { receiver_id: contract.accountId, amount: amount.toString(), memo: '', msg },
+      { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+    );
+  const balance = async () =>
+    BigInt(await ft.view('ft_balance_of', { account_id: root.accountId }));
+
+  // Unknown and malformed commands are refunded in full.
+  const before = await balance();
+  for (const msg of ['seed round', '{"fund_group":"advisors"}', '{"burn":true}']) {
+    const result = await fund(10n * ONE_TOKEN, msg);
+    const [refund] = parseEvents(result, 'investor-vesting');
+    t.is(refund.event, 'deposit_refunded');
+  }
+  t.is(await balance(), before);
+  t.is((await contract.view('get_state', {})).pool_balance, '0');
+
+  // Fund and allocate in one transfer; new records draw on the sender's storage credit.
+  const allocation = 10n * ONE_TOKEN;
+  const allocateRita = JSON.stringify({
+    allocate: [{ account_id: rita.accountId, group_id: 'team', amount: allocation.toString() }],
+  });
+  await fund(allocation, allocateRita);
+  t.is(await contract.view('get_investor', { account_id: rita.accountId }), null);
+  t.is(await balance(), before);
+
+  const credit = ONE_NEAR / 10n;
+  await root.call(contract, 'fund_storage_credit', {}, { attachedDeposit: credit.toString() });
+  await fund(allocation, allocateRita);
+  const ritaRecord = await contract.view('get_investor', { account_id: rita.accountId });
+  t.is(ritaRecord.totalAllocation, allocation.toString());
+  const leftCredit = BigInt(
+    await contract.view('get_storage_credit', { account_id: root.accountId }),
+  );
+  t.true(leftCredit > 0n && leftCredit < credit);
+  await t.throwsAsync(() => rita.call(contract, 'fund_storage_credit', {}, STORAGE_DEPOSIT), {
+    message: /only owner or allocation_manager/i,
+  });
+  // An allocation larger than the deposit fails and is refunded.
+  await fund(
+    1n,
+    JSON.stringify({
+      allocate: [{ account_id: sam.accountId, group_id: 'seed', amount: allocation.toString() }],
+    }),
+  );
+  t.is(await contract.view('get_investor', { account_id: sam.accountId }), null);
+  await root.call(contract, 'withdraw_storage_credit', {}, { attachedDeposit: ONE_YOCTO });
+  t.is(await contract.view('get_storage_credit', { account_id: root.accountId }), '0');
+
+  // Earmarked seed funds are reported per group and consumed by seed claims first.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [{ account_id: sam.accountId, group_id: 'seed', amount: allocation.toString() }],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await fund(allocation, JSON.stringify({ fund_group: 'seed' }));
+  const [seedView] = (await contract.view('get_groups', {})).filter((g) => g.group_id === 'seed');
+  t.is(seedView.earmarked, allocation.toString());
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  await sam.call(contract, 'claim', {}, claimArgs);
+  t.is(await ft.view('ft_balance_of', { account_id: sam.accountId }), allocation.toString());
+  t.is((await contract.view('get_solvency', {})).earmarked, '0');
+
+  // With refund_excess only the shortfall is kept.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: sam.accountId, group_id: 'seed', amount: (15n * ONE_TOKEN).toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const beforeExcess = await balance();
+  const excess = await fund(20n * ONE_TOKEN, JSON.stringify({ refund_excess: true }));
+  const [depositEvent] = parseEvents(excess, 'investor-vesting');
+  t.is(depositEvent.data[0].refunded, (15n * ONE_TOKEN).toString());
+  t.is(await balance(), beforeExcess - 5n * ONE_TOKEN);
+  t.is((await contract.view('get_solvency', {})).shortfall, '0');
+});
+
+test('one contract vests several tokens with separate pools', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const partner = await root.createSubAccount('partner');
+  await partner.deploy(FT_WASM_PATH);
+  await partner.call(partner, 'init', {
+    owner_id: root.accountId,
+    total_supply: (ONE_TOKEN * 1_000_000n).toString(),
+    name: 'Partner Token',
+    symbol: 'PRT',
+    decimals: 18,
+  });
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+  await root.call(contract, 'add_group', {
+    group: {
+      id: 'partner-seed',
+      token_id: partner.accountId,
+      cliff_duration_ns: '0',
+      vesting_duration_ns: vesting.toString(),
+    },
+  });
+
+  const uma = await root.createSubAccount('uma');
+  for (const token of [ft, partner]) {
+    for (const account of [contract, root, uma]) {
+      await root.call(
+        token,
+        'storage_deposit',
+        { account_id: account.accountId },
+        { attachedDeposit: '1000000000000000000000' },
+      );
+    }
+  }
+
+  // The same account holds one allocation per token.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: uma.accountId, group_id: 'seed', amount: (10n * ONE_TOKEN).toString() },
+        {
+          account_id: uma.accountId,
+          group_id: 'partner-seed',
+          amount: (4n * ONE_TOKEN).toString(),
+        },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  const allocations = await contract.view('get_investor_allocations', {
+    account_id: uma.accountId,
+  });
+  t.deepEqual(
+    allocations.map((allocation) => [allocation.token_id, allocation.total_allocation]).sort(),
+    [
+      [ft.accountId, (10n * ONE_TOKEN).toString()],
+      [partner.accountId, (4n * ONE_TOKEN).toString()],
+    ].sort(),
+  );
+
+  for (const [token, amount] of [
+    [ft, 10n * ONE_TOKEN],
+    [partner, 4n * ONE_TOKEN],
+  ]) {
+    await root.call(
+      token,
+      'ft_transfer_call',
+      { receiver_id: contract.accountId, amount: amount.toString(), memo: '', msg: '' },
+      { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+    );
+  }
+  const state = await contract.view('get_state', {});
+  t.is(state.pool_balance, (10n * ONE_TOKEN).toString());
+  const partnerPool = state.tokens.find((token) => token.token_id === partner.accountId);
+  t.is(partnerPool.pool_balance, (4n * ONE_TOKEN).toString());
+  t.is((await contract.view('get_solvency', { token_id: partner.accountId })).shortfall, '0');
+
+  // A partner-token claim leaves the default token untouched.
+  const claimArgs = { gas: '300000000000000', attachedDeposit: ONE_YOCTO };
+  await uma.call(contract, 'claim', { token_id: partner.accountId }, claimArgs);
+  t.is(
+    await partner.view('ft_balance_of', { account_id: uma.accountId }),
+    (4n * ONE_TOKEN).toString(),
+  );
+  t.is(await ft.view('ft_balance_of', { account_id: uma.accountId }), '0');
+
+  // Without token_id every token with something vested is claimed.
+  await uma.call(contract, 'claim', {}, claimArgs);
+  t.is(
+    await ft.view('ft_balance_of', { account_id: uma.accountId }),
+    (10n * ONE_TOKEN).toString(),
+  );
+  const pools = (await contract.view('get_state', {})).tokens;
+  t.true(pools.every((token) => token.pool_balance === '0'));
+
+  // Groups holding allocations cannot switch token.
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'update_group', {
+        group: {
+          id: 'seed',
+          token_id: partner.accountId,
+          cliff_duration_ns: '0',
+          vesting_duration_ns: vesting.toString(),
+        },
+      }),
+    { message: /cannot change token/ },
+  );
+});
+
+test('native NEAR groups are funded with deposit_near and paid by transfer', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [
+      {
+        id: 'advisors',
+        token_id: 'NEAR',
+        cliff_duration_ns: '0',
+        vesting_duration_ns: vesting.toString(),
+      },
+    ],
+  });
+  const vic = await root.createSubAccount('vic');
+  const allocation = 5n * ONE_NEAR;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: vic.accountId, group_id: 'advisors', amount: allocation.toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(contract, 'deposit_near', {}, { attachedDeposit: allocation.toString() });
+  const solvency = await contract.view('get_solvency', { token_id: 'NEAR' });
+  t.is(solvency.pool_balance, allocation.toString());
+  t.is(solvency.shortfall, '0');
+
+  // A transfer to a missing account fails and the claim is rolled back.
+  await vic.call(
+    contract,
+    'set_receiver',
+    { receiver_id: 'ghost.test.near' },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  await vic.call(contract, 'claim', { token_id: 'NEAR' }, claimArgs);
+  t.is(
+    await contract.view('get_claimable', { account_id: vic.accountId, token_id: 'NEAR' }),
+    allocation.toString(),
+  );
+  const afterRevert = await contract.view('get_solvency', { token_id: 'NEAR' });
+  t.is(afterRevert.pool_balance, allocation.toString());
+
+  await vic.call(contract, 'set_receiver', { receiver_id: null }, { attachedDeposit: ONE_YOCTO });
+  const before = BigInt((await vic.balance()).total.toString());
+  await vic.call(contract, 'claim', { token_id: 'NEAR' }, claimArgs);
+  const received = BigInt((await vic.balance()).total.toString()) - before;
+  // Gas for the claim call comes out of the received amount.
+  t.true(received > allocation - ONE_NEAR / 10n && received <= allocation);
+  t.is((await contract.view('get_solvency', { token_id: 'NEAR' })).pool_balance, '0');
+});
+
+test('investor storage is charged to the caller and refunded on prune', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+  const wes = await root.createSubAccount('wes');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: wes.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const allocation = 10n * ONE_TOKEN;
+  const investors = [
+    { account_id: wes.accountId, group_id: 'seed', amount: allocation.toString() },
+  ];
+
+  await t.throwsAsync(() => root.call(contract, 'upsert_investors', { investors }), {
+    message: /attach at least/i,
+  });
+  await root.call(contract, 'upsert_investors', { investors }, STORAGE_DEPOSIT);
+  const report = await contract.view('get_storage_report', {});
+  const investorStorage = report.record_types.find((entry) => entry.record_type === 'investors');
+  t.is(investorStorage.count, 1);
+  t.true(BigInt(investorStorage.bytes) > 0n);
+  t.is(report.locked_balance, (BigInt(report.total_bytes) * 10n ** 19n).toString());
+
+  // Only fully claimed records can be pruned.
+  t.deepEqual(await root.call(contract, 'prune_investors', { account_ids: [wes.accountId] }), []);
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: allocation.toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+  await wes.call(contract, 'claim', {}, { gas: '150000000000000', attachedDeposit: ONE_YOCTO });
+  const pruneResult = await root.callRaw(contract, 'prune_investors', {
+    account_ids: [wes.accountId],
+  });
+  const [pruned] = parseEvents(pruneResult, 'investor-vesting');
+  t.deepEqual(pruned.data[0], { token_id: ft.accountId, account_ids: [wes.accountId] });
+  t.is(await contract.view('get_investor', { account_id: wes.accountId }), null);
+  const after = await contract.view('get_storage_report', {});
+  const investorsAfter = after.record_types.find((entry) => entry.record_type === 'investors');
+  t.is(investorsAfter.count, 0);
+  t.true(BigInt(investorsAfter.bytes) < BigInt(investorStorage.bytes));
+});
+
+test('claims can register an unregistered receiver on the token first', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const vesting = 12n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 2n * vesting).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: vesting.toString() }],
+  });
+  const [xena, yara] = await Promise.all(
+    ['xena', 'yara'].map((name) => root.createSubAccount(name)),
+  );
+  const allocation = 10n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [xena, yara].map((account) => ({
+        account_id: account.accountId,
+        group_id: 'seed',
+        amount: allocation.toString(),
+      })),
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (2n * allocation).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  // The token refuses unregistered receivers, so a plain claim is rolled back.
+  const gas = '300000000000000';
+  await xena.call(contract, 'claim', {}, { gas, attachedDeposit: ONE_YOCTO });
+  t.is(await ft.view('storage_balance_of', { account_id: xena.accountId }), null);
+  t.is(
+    await contract.view('get_claimable', { account_id: xena.accountId }),
+    allocation.toString(),
+  );
+
+  // The claimant's attached deposit pays for the registration.
+  const { min } = await ft.view('storage_balance_bounds', {});
+  const registration = await xena.callRaw(
+    contract,
+    'claim',
+    { register_receiver: true },
+    { gas, attachedDeposit: (ONE_NEAR / 100n).toString() },
+  );
+  const registered = parseEvents(registration, 'investor-vesting').find(
+    (event) => event.event === 'receiver_registered',
+  );
+  t.deepEqual(registered.data[0], {
+    token_id: ft.accountId,
+    receiver_id: xena.accountId,
+    deposit: min,
+    from_budget: '0',
+  });
+  t.is(await ft.view('ft_balance_of', { account_id: xena.accountId }), allocation.toString());
+
+  // Without an attached deposit the owner-funded budget pays instead.
+  await root.call(contract, 'fund_registration_budget', {}, { attachedDeposit: min });
+  await yara.call(
+    contract,
+    'claim',
+    { register_receiver: true },
+    { gas, attachedDeposit: ONE_YOCTO },
+  );
+  t.is(await ft.view('ft_balance_of', { account_id: yara.accountId }), allocation.toString());
+  t.is((await contract.view('get_state', {})).registration_budget, '0');
+});
+
+test('projection views forecast unlocks with the on-chain schedule math', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const tge = (await currentTimestamp(worker)) - 7n * MONTH;
+  const quarterly = [1n, 2n, 3n, 4n].map((quarter) => ({
+    offset_ns: (quarter * 3n * MONTH).toString(),
+    cumulative_basis_points: (quarter * 2500n).toString(),
+  }));
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: tge.toString(),
+    groups: [
+      { id: 'strategic', unlock_checkpoints: quarterly, unlock_mode: 'step' },
+      {
+        id: 'seed',
+        cliff_duration_ns: (12n * MONTH).toString(),
+        vesting_duration_ns: (12n * MONTH).toString(),
+      },
+    ],
+  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: 'strategic.test.near', group_id: 'strategic', amount: '100' },
+        { account_id: 'seed1.test.near', group_id: 'seed', amount: '120' },
+        { account_id: 'seed2.test.near', group_id: 'seed', amount: '240' },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+
+  const vestedAt = (offset) =>
+    contract.view('get_vested_at', {
+      account_id: 'strategic.test.near',
+      timestamp_ns: (tge + offset).toString(),
+    });
+  t.is(await vestedAt(-1n), '0');
+  t.is(await vestedAt(9n * MONTH), '75');
+  t.is(await vestedAt(12n * MONTH), '100');
+
+  // Seven months in, the step curve unlocks its third quarter next.
+  t.deepEqual(await contract.view('get_next_unlock', { account_id: 'strategic.test.near' }), {
+    timestamp_ns: (tge + 9n * MONTH).toString(),
+    amount: '25',
+    linear: false,
+  });
+  // The linear schedule accrues from the cliff until its end.
+  t.deepEqual(await contract.view('get_next_unlock', { account_id: 'seed1.test.near' }), {
+    timestamp_ns: (tge + 24n * MONTH).toString(),
+    amount: '120',
+    linear: true,
+  });
+  t.is(await contract.view('get_next_unlock', { account_id: 'nobody.test.near' }), null);
+
+  const range = {
+    from_ns: (tge + 12n * MONTH).toString(),
+    to_ns: (tge + 24n * MONTH).toString(),
+  };
+  const points = await contract.view('get_unlock_schedule', {
+    account_id: 'seed1.test.near',
+    ...range,
+    step_ns: (3n * MONTH).toString(),
+  });
+  t.deepEqual(
+    points.map((point) => [point.vested, point.unlocked]),
+    [
+      ['0', '0'],
+      ['30', '30'],
+      ['60', '30'],
+      ['90', '30'],
+      ['120', '30'],
+    ],
+  );
+
+  const projection = { group_id: 'seed', ...range, step_ns: (6n * MONTH).toString() };
+  const firstPage = await contract.view('get_group_unlock_projection', { ...projection, limit: 1 });
+  t.is(firstPage.token_id, ft.accountId);
+  t.deepEqual(firstPage.periods.map((period) => period.unlocked), ['60', '60']);
+  t.is(firstPage.next_index, 1);
+  const secondPage = await contract.view('get_group_unlock_projection', {
+    ...projection,
+    from_index: 1,
+  });
+  t.deepEqual(secondPage.periods.map((period) => period.unlocked), ['120', '120']);
+  t.is(secondPage.next_index, null);
+
+  // With 200 points a page is cut to 10 investors, whatever the limit.
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [...Array(10).keys()].map((index) => ({
+        account_id: `seed${index + 3}.test.near`,
+        group_id: 'seed',
+        amount: '12',
+      })),
+    },
+    STORAGE_DEPOSIT,
+  );
+  const dense = await contract.view('get_group_unlock_projection', {
+    group_id: 'seed',
+    ...range,
+    step_ns: ((12n * MONTH) / 199n + 1n).toString(),
+    limit: 50,
+  });
+  t.is(dense.periods.length, 199);
+  t.is(dense.next_index, 10);
+
+  await t.throwsAsync(
+    () =>
+      contract.view('get_unlock_schedule', {
+        account_id: 'seed1.test.near',
+        ...range,
+        step_ns: '1000000',
+      }),
+    { message: /limited to 200 points/ },
+  );
+});
+
+test('investor status breaks vested amounts down for a batch of accounts', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const tge = (await currentTimestamp(worker)) - 18n * MONTH;
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: tge.toString(),
+    groups: [
+      {
+        id: 'round-a',
+        cliff_duration_ns: (12n * MONTH).toString(),
+        vesting_duration_ns: (12n * MONTH).toString(),
+        initial_unlock_basis_points: '1000',
+      },
+    ],
+    initial_claim_basis_points: '500',
+    initial_claim_available_timestamp_ns: tge.toString(),
+  });
+  const paula = await root.createSubAccount('paula');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: paula.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  await root.call(
+    contract,
+    'upsert_investors',
+    { investors: [{ account_id: paula.accountId, group_id: 'round-a', amount: '1000' }] },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: '1000', memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  const [before, missing] = await contract.view('get_investor_status', {
+    account_ids: [paula.accountId, 'nobody.test.near'],
+  });
+  t.is(missing, null);
+  t.is(before.group_id, 'round-a');
+  t.is(before.cliff_end_ns, (tge + 12n * MONTH).toString());
+  t.is(before.vesting_end_ns, (tge + 24n * MONTH).toString());
+  t.is(before.last_claim_at_ns, null);
+  // 5% at TGE, 10% at the cliff and half of the remaining 85% six months into vesting.
+  const { initial_claim, post_cliff, linear, checkpoints } = before.vested_breakdown;
+  t.is(initial_claim, '50');
+  t.is(post_cliff, '100');
+  t.is(checkpoints, '0');
+  t.true(BigInt(linear) >= 425n && BigInt(linear) < 430n);
+  t.is(BigInt(before.vested), 150n + BigInt(linear));
+  t.is(BigInt(before.locked), 1000n - BigInt(before.vested));
+  t.is(before.claimable, before.vested);
+  t.is(before.vested_basis_points, (BigInt(before.vested) * 10n).toString());
+
+  await paula.call(contract, 'claim', {}, { gas: '150000000000000', attachedDeposit: ONE_YOCTO });
+  const [after] = await contract.view('get_investor_status', { account_ids: [paula.accountId] });
+  t.is(after.claimed, await ft.view('ft_balance_of', { account_id: paula.accountId }));
+  t.true(BigInt(after.last_claim_at_ns) > tge + 18n * MONTH);
+  t.is(BigInt(after.claimable), BigInt(after.vested) - BigInt(after.claimed));
+});
+
+test('claims, deposits and withdrawals are kept in append-only ledgers', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 6n * MONTH).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: (12n * MONTH).toString() }],
+  });
+  const quinn = await root.createSubAccount('quinn');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: quinn.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const allocation = 100n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [{ account_id: quinn.accountId, group_id: 'seed', amount: allocation.toString() }],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (2n * allocation).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  await quinn.call(contract, 'claim', { memo: 'payout-q1' }, claimArgs);
+  // A receiver the token does not know makes the next transfer fail and roll back.
+  await quinn.call(
+    contract,
+    'set_receiver',
+    { receiver_id: 'ghost.test.near' },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  await quinn.call(contract, 'claim', {}, claimArgs);
+
+  const history = await contract.view('get_claim_history', { account_id: quinn.accountId });
+  t.is(history.length, 2);
+  t.like(history[0], {
+    tokenId: ft.accountId,
+    receiverId: quinn.accountId,
+    amount: await ft.view('ft_balance_of', { account_id: quinn.accountId }),
+    initiator: quinn.accountId,
+    status: 'settled',
+    memo: 'payout-q1',
+  });
+  t.true(Number(history[0].blockHeight) > 0);
+  t.like(history[1], { receiverId: 'ghost.test.near', status: 'reverted', memo: 'vesting-claim' });
+  t.deepEqual(
+    await contract.view('get_claim_history', {
+      account_id: quinn.accountId,
+      from_index: 1,
+      limit: 1,
+    }),
+    [history[1]],
+  );
+  // Retrying a failed transfer reuses its entry instead of adding one per attempt.
+  await quinn.call(contract, 'claim', { memo: 'retry' }, claimArgs);
+  const retried = await contract.view('get_claim_history', { account_id: quinn.accountId });
+  t.is(retried.length, 2);
+  t.like(retried[1], { status: 'reverted', memo: 'retry', failedAttempts: 1 });
+
+  // Below the minimum the token refunds the deposit and the ledger does not grow.
+  await root.call(contract, 'configure_min_deposit', { amount: ONE_TOKEN.toString() });
+  const poolBefore = (await contract.view('get_state', {})).pool_balance;
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: '1', memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+  const state = await contract.view('get_state', {});
+  t.is(state.pool_balance, poolBefore);
+  t.is(state.tokens[0].min_deposit, ONE_TOKEN.toString());
+
+  await root.call(
+    contract,
+    'withdraw_unallocated',
+    { amount: ONE_TOKEN.toString(), memo: 'buyback' },
+    claimArgs,
+  );
+  const treasury = await contract.view('get_treasury_history', {});
+  t.deepEqual(
+    treasury.map(({ action, accountId, amount, status, memo }) => ({
+      action,
+      accountId,
+      amount,
+      status,
+      memo,
+    })),
+    [
+      {
+        action: 'deposit',
+        accountId: root.accountId,
+        amount: (2n * allocation).toString(),
+        status: 'settled',
+        memo: '',
+      },
+      {
+        action: 'withdrawal',
+        accountId: root.accountId,
+        amount: ONE_TOKEN.toString(),
+        status: 'settled',
+        memo: 'buyback',
+      },
+    ],
+  );
+});
+
+test('a claim whose callback never ran stays locked until the owner recovers it', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  const schedule = { cliff_duration_ns: '0', vesting_duration_ns: (12n * MONTH).toString() };
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 24n * MONTH).toString(),
+    groups: [
+      { id: 'seed', ...schedule },
+      { id: 'team', ...schedule },
+    ],
+  });
+  const rita = await root.createSubAccount('rita');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: rita.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const allocation = 10n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: rita.accountId, group_id: 'seed', amount: allocation.toString() },
+        { account_id: 'ghost.test.near', group_id: 'seed', amount: allocation.toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (2n * allocation).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  // The contract claims as an operator and swaps its code in the same receipt, so the
+  // transfer runs but the callback finds no on_claim_complete and fails.
+  await root.call(contract, 'grant_role', { role: 'operator', account_id: contract.accountId });
+  const ftCode = readFileSync(FT_WASM_PATH);
+  const strandClaim = async (accountId) => {
+    await contract
+      .batch(contract)
+      .functionCall(
+        'claim',
+        { account_id: accountId },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      )
+      .deployContract(ftCode)
+      .transact();
+    await contract.deploy(process.argv[2]);
+  };
+  // ghost.test.near is not registered on the token, so its transfer fails as well.
+  await strandClaim(rita.accountId);
+  await strandClaim('ghost.test.near');
+  t.is(await ft.view('ft_balance_of', { account_id: rita.accountId }), allocation.toString());
+  t.is(await ft.view('ft_balance_of', { account_id: contract.accountId }), allocation.toString());
+
+  const ritaRecord = await contract.view('get_investor', { account_id: rita.accountId });
+  t.is(ritaRecord.pendingClaim.amount, allocation.toString());
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  await t.throwsAsync(() => rita.call(contract, 'claim', {}, claimArgs), {
+    message: new RegExp(`A claim for ${rita.accountId} is still in flight`),
+  });
+  await t.throwsAsync(
+    () => root.call(contract, 'remove_group', { group_id: 'seed', target_group_id: 'team' }),
+    { message: /is still in flight/ },
+  );
+  const recover = (caller, accountId, outcome) =>
+    caller.call(
+      contract,
+      'recover_pending_claim',
+      { account_id: accountId, outcome },
+      { attachedDeposit: ONE_YOCTO },
+    );
+  await t.throwsAsync(() => recover(root, rita.accountId, 'settled'), {
+    message: /too recent to recover/,
+  });
+  await t.throwsAsync(() => recover(rita, rita.accountId, 'settled'), { message: /Only owner/ });
+
+  // An hour of blocks later the owner resolves both claims from what the token reports.
+  await worker.provider.fastForward(3_700);
+  await recover(root, rita.accountId, 'settled');
+  await recover(root, 'ghost.test.near', 'reverted');
+
+  const [settled, reverted] = await contract.view('get_investor_status', {
+    account_ids: [rita.accountId, 'ghost.test.near'],
+  });
+  t.like(settled, { claimed: allocation.toString(), pending: '0' });
+  t.like(reverted, { claimed: '0', pending: '0', claimable: allocation.toString() });
+  const ritaHistory = await contract.view('get_claim_history', { account_id: rita.accountId });
+  t.deepEqual(ritaHistory.map((entry) => entry.status), ['settled']);
+  const ghostHistory = await contract.view('get_claim_history', { account_id: 'ghost.test.near' });
+  t.deepEqual(ghostHistory.map((entry) => entry.status), ['reverted']);
+  t.is((await contract.view('get_state', {})).pool_balance, allocation.toString());
+  await t.throwsAsync(() => recover(root, rita.accountId, 'reverted'), {
+    message: /No pending claim/,
+  });
+  await root.call(contract, 'remove_group', { group_id: 'seed', target_group_id: 'team' });
+});
+
+test('group claim policies enforce windows, cooldowns and a minimum size', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const DAY = 24n * 60n * 60n * 1_000_000_000n;
+  const tge = (await currentTimestamp(worker)) - 12n * MONTH - 10n * DAY;
+  const linear = { cliff_duration_ns: '0', vesting_duration_ns: (24n * MONTH).toString() };
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: tge.toString(),
+    groups: [
+      {
+        id: 'seed',
+        ...linear,
+        claim_policy: {
+          min_claim_amount: (5n * ONE_TOKEN).toString(),
+          min_interval_ns: DAY.toString(),
+        },
+      },
+      {
+        id: 'windowed',
+        ...linear,
+        claim_policy: {
+          window_period_ns: MONTH.toString(),
+          window_duration_ns: (7n * DAY).toString(),
+        },
+      },
+    ],
+  });
+  const sam = await root.createSubAccount('sam');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: sam.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const allocation = 240n * ONE_TOKEN;
+  await root.call(
+    contract,
+    'upsert_investors',
+    {
+      investors: [
+        { account_id: sam.accountId, group_id: 'seed', amount: allocation.toString() },
+        { account_id: 'tara.test.near', group_id: 'windowed', amount: allocation.toString() },
+      ],
+    },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (2n * allocation).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  // Ten days into the current 30-day period the 7-day window is closed until the next one.
+  t.is(await contract.view('get_claimable', { account_id: 'tara.test.near' }), '0');
+  const windowed = await contract.view('get_claim_availability', { account_id: 'tara.test.near' });
+  t.like(windowed, {
+    allowed: false,
+    reason: 'window_closed',
+    next_claim_at_ns: (tge + 13n * MONTH).toString(),
+  });
+  t.true(BigInt(windowed.claimable) > 0n);
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'claim',
+        { account_id: 'tara.test.near' },
+        { gas: '150000000000000', attachedDeposit: ONE_YOCTO },
+      ),
+    { message: new RegExp(`window_closed.*${tge + 13n * MONTH}`) },
+  );
+
+  const claimArgs = { gas: '150000000000000', attachedDeposit: ONE_YOCTO };
+  // A claim whose transfer fails does not start the cooldown.
+  const setReceiver = (receiverId) =>
+    sam.call(contract, 'set_receiver', { receiver_id: receiverId }, { attachedDeposit: ONE_YOCTO });
+  await setReceiver('unregistered.test.near');
+  await sam.call(contract, 'claim', {}, claimArgs);
+  const [reverted] = await contract.view('get_investor_status', { account_ids: [sam.accountId] });
+  t.is(reverted.last_claim_at_ns, null);
+  t.true(BigInt(reverted.claimable) > 0n);
+  await setReceiver(null);
+
+  await sam.call(contract, 'claim', {}, claimArgs);
+  const [status] = await contract.view('get_investor_status', { account_ids: [sam.accountId] });
+  t.is(status.claimable, '0');
+
+  // Right after a claim the cooldown applies, and 5 tokens take about 15 days to vest.
+  const cooling = await contract.view('get_claim_availability', { account_id: sam.accountId });
+  t.is(cooling.reason, 'cooldown');
+  const expected = BigInt(status.last_claim_at_ns) + MONTH / 2n;
+  const next = BigInt(cooling.next_claim_at_ns);
+  t.true(next - expected < 1_000_000n && expected - next < 1_000_000n);
+  await t.throwsAsync(() => sam.call(contract, 'claim', {}, claimArgs), { message: /cooldown/ });
+
+  await t.throwsAsync(
+    () =>
+      root.call(contract, 'add_group', {
+        group: { id: 'broken', ...linear, claim_policy: { window_period_ns: MONTH.toString() } },
+      }),
+    { message: /must be set together/ },
+  );
+});
+
+test('investor batches can be previewed, then created, updated or replaced', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: now.toString(),
+    groups: [
+      { id: 'seed', cliff_duration_ns: MONTH.toString(), vesting_duration_ns: MONTH.toString() },
+    ],
+  });
+  const row = (account, amount, group = 'seed') => ({
+    account_id: `${account}.test.near`,
+    group_id: group,
+    amount: (BigInt(amount) * ONE_TOKEN).toString(),
+  });
+  await root.call(
+    contract,
+    'upsert_investors',
+    { investors: [row('ann', 10), row('ben', 20)] },
+    STORAGE_DEPOSIT,
+  );
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (25n * ONE_TOKEN).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+
+  const preview = await contract.view('validate_investors', {
+    investors: [
+      row('ben', 20),
+      row('cid', 5),
+      row('ann', 15),
+      row('dee', 1, 'nope'),
+      row('cid', 6),
+    ],
+  });
+  t.false(preview.valid);
+  t.deepEqual(
+    preview.rows.map((result) => [result.index, result.status, result.error]),
+    [
+      [0, 'unchanged', null],
+      [1, 'new', null],
+      [2, 'updated', null],
+      [3, 'error', 'Unknown group_id nope'],
+      [4, 'error', 'Duplicate investor entry for cid.test.near'],
+    ],
+  );
+  t.deepEqual(preview.tokens, [
+    {
+      token_id: ft.accountId,
+      allocation_delta: (10n * ONE_TOKEN).toString(),
+      committed_before: (30n * ONE_TOKEN).toString(),
+      committed_after: (40n * ONE_TOKEN).toString(),
+      pool_balance: (25n * ONE_TOKEN).toString(),
+      shortfall_before: (5n * ONE_TOKEN).toString(),
+      shortfall_after: (15n * ONE_TOKEN).toString(),
+    },
+  ]);
+
+  const createOnly = await contract.view('validate_investors', {
+    investors: [row('ann', 10)],
+    mode: 'create-only',
+  });
+  t.is(createOnly.rows[0].error, 'Investor ann.test.near already has an allocation');
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'upsert_investors',
+        { investors: [row('cid', 5)], mode: 'update-only' },
+        STORAGE_DEPOSIT,
+      ),
+    { message: /has no allocation to update/ },
+  );
+
+  // Replacing the seed group with ben and cid drops ann, whom the batch leaves out.
+  await t.throwsAsync(
+    () =>
+      root.call(
+        contract,
+        'upsert_investors',
+        { investors: [row('ben', 20)], from_index: 0 },
+        STORAGE_DEPOSIT,
+      ),
+    { message: /only allowed with mode replace/ },
+  );
+  const replacement = { investors: [row('ben', 20), row('cid', 5)], mode: 'replace' };
+  const replacePreview = await contract.view('validate_investors', {
+    ...replacement,
+    strict: true,
+  });
+  t.true(replacePreview.valid);
+  t.is(replacePreview.next_index, null);
+  t.deepEqual(replacePreview.rows[2], {
+    index: null,
+    account_id: 'ann.test.near',
+    group_id: 'seed',
+    status: 'removed',
+    previous_allocation: (10n * ONE_TOKEN).toString(),
+    total_allocation: '0',
+    error: null,
+  });
+  t.is(replacePreview.tokens[0].shortfall_after, '0');
+
+  // The bytes freed by removing ann are refunded to ann's payer, not netted against cid's row.
+  await t.throwsAsync(
+    () => root.call(contract, 'upsert_investors', replacement, { attachedDeposit: ONE_YOCTO }),
+    { message: /attach at least \d+ yoctoNEAR to cover storage/i },
+  );
+  // One member per page: ann goes first and cid, moved into ann's slot, is checked on resume.
+  const result = await root.callRaw(
+    contract,
+    'upsert_investors',
+    { ...replacement, limit: 1 },
+    STORAGE_DEPOSIT,
+  );
+  t.deepEqual(result.parseResult(), { removed: 1, next_index: 0 });
+  const removed = parseEvents(result, 'investor-vesting').find(
+    (event) => event.event === 'investors_removed',
+  );
+  t.deepEqual(removed.data[0].investors.map((investor) => investor.account_id), ['ann.test.near']);
+  t.deepEqual(
+    await root.call(
+      contract,
+      'upsert_investors',
+      { ...replacement, from_index: 0, limit: 1 },
+      STORAGE_DEPOSIT,
+    ),
+    { removed: 0, next_index: 1 },
+  );
+  t.deepEqual(
+    await root.call(
+      contract,
+      'upsert_investors',
+      { ...replacement, from_index: 1 },
+      STORAGE_DEPOSIT,
+    ),
+    { removed: 0, next_index: null },
+  );
+  const members = await contract.view('get_investors_by_group', { group_id: 'seed' });
+  t.deepEqual(members.map((investor) => investor.account_id).sort(), [
+    'ben.test.near',
+    'cid.test.near',
+  ]);
+});
+
+test('an upgrade migrates a contract populated with the original layout', async (t) => {
+  const { worker, accounts } = t.context;
+  const { root, ft, contract } = accounts;
+
+  // Populate the contract with the original single-token code first.
+  await contract.deploy(V0_WASM_PATH);
+  const now = await currentTimestamp(worker);
+  await root.call(contract, 'init', {
+    owner: root.accountId,
+    token_account_id: ft.accountId,
+    tge_timestamp_ns: (now - 6n * MONTH).toString(),
+    groups: [{ id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: (12n * MONTH).toString() }],
+  });
+  const ana = await root.createSubAccount('ana');
+  await root.call(
+    ft,
+    'storage_deposit',
+    { account_id: ana.accountId },
+    { attachedDeposit: '1000000000000000000000' },
+  );
+  const row = (accountId, amount) => ({
+    account_id: accountId,
+    group_id: 'seed',
+    amount: (BigInt(amount) * ONE_TOKEN).toString(),
+  });
+  await root.call(contract, 'upsert_investors', {
+    investors: [row(ana.accountId, 10), row('ben.test.near', 20), row('cam.test.near', 30)],
+  });
+  await root.call(
+    ft,
+    'ft_transfer_call',
+    { receiver_id: contract.accountId, amount: (60n * ONE_TOKEN).toString(), memo: '', msg: '' },
+    { attachedDeposit: ONE_YOCTO, gas: '150000000000000' },
+  );
+  const claimArgs = { attachedDeposit: ONE_YOCTO, gas: '150000000000000' };
+  await ana.call(contract, 'claim', {}, claimArgs);
+  const before = await contract.view('get_investor', { account_id: ana.accountId });
+  const legacyState = await contract.view('get_state', {});
+
+  // The original code has no upgrade method, so the account deploys and migrates itself once.
+  const code = readFileSync(process.argv[2]);
+  const migration = await contract
+    .batch(contract)
+    .deployContract(code)
+    .functionCall('migrate', {}, { gas: '100000000000000' })
+    .transact();
+  t.true(migration.succeeded);
+  const [migrated] = parseEvents(migration, 'investor-vesting');
+  t.deepEqual(migrated.data[0], { from_version: 0, to_version: 1, pending_records: 3 });
+  t.deepEqual(await contract.view('get_migration_status', {}), {
+    state_version: 1,
+    pending_records: 3,
+    next_index: 0,
+  });
+  const state = await contract.view('get_state', {});
+  t.is(state.pool_balance, legacyState.pool_balance);
+  t.is(state.total_deposited, legacyState.total_deposited);
+  t.is(state.total_claimed, legacyState.total_claimed);
+
+  // Investor calls wait until every record has moved to its per-token key.
+  await t.throwsAsync(() => ana.call(contract, 'claim', {}, claimArgs), {
+    message: /still being migrated/,
+  });
+  const firstBatch = await root.call(
+    contract,
+    'migrate_records',
+    { limit: 2 },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  t.deepEqual(firstBatch, { migrated: 2, pending_records: 1, next_index: 0 });
+  const lastBatch = await root.call(
+    contract,
+    'migrate_records',
+    { limit: 10 },
+    { attachedDeposit: ONE_YOCTO },
+  );
+  t.deepEqual(lastBatch, { migrated: 1, pending_records: 0, next_index: null });
+  await t.throwsAsync(
+    () => root.call(contract, 'migrate_records', {}, { attachedDeposit: ONE_YOCTO }),
+    { message: /No investor record migration/ },
+  );
+
+  // Records, aggregates and commitments are rebuilt from the moved records.
+  const after = await contract.view('get_investor', { account_id: ana.accountId });
+  t.is(after.claimed, before.claimed);
+  t.is(after.totalAllocation, before.totalAllocation);
+  t.is(await contract.view('get_investor_count', {}), 3);
+  const stats = await contract.view('get_group_stats', { group_id: 'seed' });
+  t.is(stats.investor_count, 3);
+  t.is(stats.total_allocation, (60n * ONE_TOKEN).toString());
+  const committed = 60n * ONE_TOKEN - BigInt(before.claimed);
+  t.deepEqual(await contract.view('get_solvency', {}), {
+    pool_balance: legacyState.pool_balance,
+    committed: committed.toString(),
+    earmarked: '0',
+    free: (BigInt(legacyState.pool_balance) - committed).toString(),
+    shortfall: '0',
+  });
+
+  // Claims work again and pay from the migrated pool.
+  await ana.call(contract, 'claim', {}, claimArgs);
+  const claimed = await contract.view('get_investor', { account_id: ana.accountId });
+  t.true(BigInt(claimed.claimed) > BigInt(before.claimed));
+  t.is(await ft.view('ft_balance_of', { account_id: ana.accountId }), claimed.claimed);
+  t.is(
+    (await contract.view('get_solvency', {})).pool_balance,
+    (60n * ONE_TOKEN - BigInt(claimed.claimed)).toString(),
+  );
+
+  // Migrated groups vest the default token, so existing investors and groups can be changed.
+  await root.call(
+    contract,
+    'upsert_investors',
+    { investors: [row('ben.test.near', 25)] },
+    STORAGE_DEPOSIT,
+  );
+  t.is(await contract.view('get_investor_count', {}), 3);
+  t.is(
+    (await contract.view('get_solvency', {})).committed,
+    (65n * ONE_TOKEN - BigInt(claimed.claimed)).toString(),
+  );
+  await root.call(contract, 'update_group', {
+    group: { id: 'seed', cliff_duration_ns: '0', vesting_duration_ns: (6n * MONTH).toString() },
+  });
+  await root.call(contract, 'add_group', {
+    group: { id: 'team', cliff_duration_ns: '0', vesting_duration_ns: (6n * MONTH).toString() },
+  });
+  t.deepEqual(
+    await root.call(contract, 'remove_group', { group_id: 'seed', target_group_id: 'team' }),
+    { moved: 3, remaining: 0, removed: true },
+  );
+  const moved = await contract.view('get_investors_by_group', { group_id: 'team' });
+  t.is(moved.length, 3);
+
+  // Later upgrades go through the owner-gated method.
+  const latin1 = code.toString('latin1');
+  const upgradeArgs = { attachedDeposit: ONE_YOCTO, gas: '300000000000000' };
+  await t.throwsAsync(() => ana.call(contract, 'upgrade', { code: latin1 }, upgradeArgs), {
+    message: /Only owner/,
+  });
+  await t.throwsAsync(() => root.call(contract, 'upgrade', { code: 'not wasm' }, upgradeArgs), {
+    message: /must be a Wasm module/,
+  });
+  await t.throwsAsync(() => root.call(contract, 'migrate', {}), { message: /Only the contract/ });
+  const upgrade = await root.callRaw(contract, 'upgrade', { code: latin1 }, upgradeArgs);
+  t.true(upgrade.succeeded);
+  const events = parseEvents(upgrade, 'investor-vesting');
+  t.is(events.find((event) => event.event === 'upgrade_started').data[0].state_version, 1);
+  t.deepEqual(events.find((event) => event.event === 'state_migrated').data[0], {
+    from_version: 1,
+    to_version: 1,
+    pending_records: 0,
+  });
+  const upgraded = await contract.view('get_investor', { account_id: ana.accountId });
+  t.is(upgraded.claimed, claimed.claimed);
 });
@@ -1,44 +1,588 @@
-import { NearBindgen, near, call, view, initialize, NearPromise, UnorderedMap } from 'near-sdk-js';
+import {
+  NearBindgen,
+  near,
+  call,
+  view,
+  initialize,
+  migrate as migration,
+  NearPromise,
+  UnorderedMap,
+  UnorderedSet,
+  LookupSet,
+  Vector,
+  concat,
+  encode,
+  bytes,
+  deserialize,
+} from 'near-sdk-js';
 
 const ONE_YOCTO = BigInt(1);
 const NO_DEPOSIT = BigInt(0);
 const GAS_FOR_FT_TRANSFER = BigInt('50000000000000'); // 50 Tgas
 const GAS_FOR_RESOLVE = BigInt('20000000000000'); // 20 Tgas
 const BASIS_POINTS_DENOMINATOR = BigInt(10_000);
+const ROLES: Role[] = ['allocation_manager', 'treasury', 'operator', 'config_admin'];
+const PAUSE_SCOPES: PauseScope[] = [
+  'claims',
+  'group_claims',
+  'account_claims',
+  'funding',
+  'withdrawals',
+];
+const REFERENCE_ALLOCATION = BigInt('1000000000000000000000000');
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+const EVENT_STANDARD = 'investor-vesting';
+const EVENT_VERSION = '1.0.0';
+const SHORTFALL_POLICIES: ShortfallPolicy[] = ['reject', 'pay_available', 'pro_rata'];
+const GAS_FOR_IOU_PAYOUT = GAS_FOR_FT_TRANSFER + GAS_FOR_RESOLVE;
+const GAS_FOR_BOOKKEEPING = BigInt('10000000000000'); // 10 Tgas
+const GAS_FOR_BATCH_FT_TRANSFER = BigInt('10000000000000'); // 10 Tgas
+const GAS_FOR_RESOLVE_PER_PAYOUT = BigInt('5000000000000'); // 5 Tgas
+// Not a valid account id, so it can never collide with a NEP-141 contract.
+const NATIVE_TOKEN_ID = 'NEAR';
+const STORAGE_PRICE_PER_BYTE = BigInt('10000000000000000000'); // 10^19 yoctoNEAR
+const NATIVE_STORAGE_HEADROOM = BigInt('100000000000000000000000'); // 0.1 NEAR
+const GAS_FOR_STORAGE_VIEW = BigInt('5000000000000'); // 5 Tgas
+const GAS_FOR_STORAGE_DEPOSIT = BigInt('10000000000000'); // 10 Tgas
+const GAS_FOR_REGISTRATION = GAS_FOR_STORAGE_DEPOSIT + GAS_FOR_FT_TRANSFER + GAS_FOR_BOOKKEEPING;
+const MAX_PROJECTION_POINTS = 200;
+// Members times points computed by one get_group_unlock_projection page.
+const MAX_PROJECTION_CELLS = 2_000;
+const UPSERT_MODES: UpsertMode[] = ['create-only', 'update-only', 'replace'];
+const PENDING_CLAIM_RECOVERY_NS = BigInt('3600000000000'); // 1 hour
+const STORAGE_RECORD_TYPES: StorageRecordType[] = [
+  'investors',
+  'groups',
+  'merkle_roots',
+  'roles',
+  'pauses',
+];
+// Bumped whenever the contract state layout changes; `migrate` upgrades older layouts.
+const STATE_VERSION = 1;
+const GAS_FOR_MIGRATE = BigInt('100000000000000'); // 100 Tgas
+const WASM_MAGIC = '\0asm';
+
+type UnlockMode = 'step' | 'interpolated';
+
+type UnlockCheckpointInput = {
+  offset_ns: string;
+  cumulative_basis_points: string;
+};
+
+type UnlockCheckpoint = {
+  offsetNs: string;
+  cumulativeBasisPoints: string;
+};
+
+type ClaimPolicyInput = {
+  min_claim_amount?: string;
+  min_interval_ns?: string;
+  window_period_ns?: string;
+  window_duration_ns?: string;
+};
+
+type ClaimPolicy = {
+  minClaimAmount?: string;
+  minIntervalNs?: string;
+  windowPeriodNs?: string;
+  windowDurationNs?: string;
+};
+
+type ClaimGateReason = 'cooldown' | 'below_minimum' | 'window_closed';
+
+type ClaimGate = {
+  reason: ClaimGateReason;
+  nextClaimAtNs: bigint | null;
+};
+
+type ClaimAvailability = {
+  claimable: string;
+  allowed: boolean;
+  reason: ClaimGateReason | null;
+  next_claim_at_ns: string | null;
+};
 
 type GroupConfigInput = {
   id: string;
-  cliff_duration_ns: string;
-  vesting_duration_ns: string;
+  token_id?: string;
+  cliff_duration_ns?: string;
+  vesting_duration_ns?: string;
   initial_unlock_basis_points?: string;
+  revocable?: boolean;
+  unlock_checkpoints?: UnlockCheckpointInput[];
+  unlock_mode?: UnlockMode;
+  claim_policy?: ClaimPolicyInput;
 };
 
 type GroupConfigStored = {
+  tokenId: string;
+  cliffDurationNs: string;
+  vestingDurationNs: string;
+  initialUnlockBasisPoints: string;
+  revocable: boolean;
+  unlockCheckpoints?: UnlockCheckpoint[];
+  unlockMode?: UnlockMode;
+  claimPolicy?: ClaimPolicy;
+};
+
+type ScheduleOverrideInput = {
+  start_timestamp_ns?: string;
+  cliff_duration_ns?: string;
+  vesting_duration_ns?: string;
+  initial_unlock_basis_points?: string;
+  initial_claim_basis_points?: string;
+};
+
+type ScheduleOverrides = {
+  startTimestampNs?: string;
+  cliffDurationNs?: string;
+  vestingDurationNs?: string;
+  initialUnlockBasisPoints?: string;
+  initialClaimBasisPoints?: string;
+};
+
+type VestingSchedule = {
+  startTimestampNs: string;
   cliffDurationNs: string;
   vestingDurationNs: string;
   initialUnlockBasisPoints: string;
+  initialClaimBasisPoints: string;
+  initialClaimAvailableTimestampNs: string;
+  unlockCheckpoints?: UnlockCheckpoint[];
+  unlockMode?: UnlockMode;
 };
 
 type InvestorInput = {
   account_id: string;
   group_id: string;
   amount: string;
+  schedule?: ScheduleOverrideInput | null;
+};
+
+type PendingClaim = {
+  amount: string;
+  iouPaid: string;
+  startedAtNs: string;
+  historyIndex: number;
+  // lastClaimAtNs before this claim was booked, restored if the transfer fails.
+  previousClaimAtNs?: string;
+};
+
+type PendingClaimOutcome = 'settled' | 'reverted';
+
+type MigrationStatus = {
+  state_version: number;
+  pending_records: number;
+  next_index: number | null;
+};
+
+type MigrateRecordsResult = {
+  migrated: number;
+  pending_records: number;
+  next_index: number | null;
+};
+
+type UpsertMode = 'create-only' | 'update-only' | 'replace';
+
+type PlannedUpsert = {
+  key: string;
+  tokenId: string;
+  amount: bigint;
+  // `null` clears the stored overrides; `undefined` keeps them.
+  overrides: ScheduleOverrides | null | undefined;
+  current: InvestorRecord | null;
+};
+
+type InvestorRowStatus = 'new' | 'updated' | 'unchanged' | 'removed' | 'error';
+
+type InvestorRowResult = {
+  // Position in the batch; null for investors that `replace` would remove.
+  index: number | null;
+  account_id: string;
+  group_id: string;
+  status: InvestorRowStatus;
+  previous_allocation: string;
+  total_allocation: string;
+  error: string | null;
+};
+
+type AllocationImpact = {
+  token_id: string;
+  allocation_delta: string;
+  committed_before: string;
+  committed_after: string;
+  pool_balance: string;
+  shortfall_before: string;
+  shortfall_after: string;
+};
+
+type InvestorValidation = {
+  valid: boolean;
+  rows: InvestorRowResult[];
+  tokens: AllocationImpact[];
+  // Where the next page of a `replace` walk starts; null once every member was checked.
+  next_index: number | null;
+};
+
+type UpsertResult = {
+  removed: number;
+  next_index: number | null;
+};
+
+// [groupId, accountId, key, record] of each member a `replace` page removes.
+type ReplacePage = {
+  missing: [string, string, string, InvestorRecord][];
+  nextIndex: number | null;
 };
 
 type InvestorRecord = {
   groupId: string;
   totalAllocation: string;
   claimed: string;
+  scheduleOverrides?: ScheduleOverrides;
+  receiverId?: string;
+  revokedAtNs?: string;
+  revokedAmount?: string;
+  iou?: string;
+  lastClaimAtNs?: string;
+  pendingClaim?: PendingClaim;
+  // Claim history slot of the last reverted payout, reused by the next claim.
+  revertedClaimIndex?: number;
+};
+
+type InvestorDetails = InvestorRecord & {
+  schedule: VestingSchedule | null;
+};
+
+type VestedBreakdown = {
+  initialClaim: bigint;
+  postCliff: bigint;
+  linear: bigint;
+  checkpoints: bigint;
+};
+
+type InvestorStatus = {
+  account_id: string;
+  token_id: string;
+  group_id: string;
+  schedule: VestingSchedule;
+  total_allocation: string;
+  vested: string;
+  vested_breakdown: {
+    initial_claim: string;
+    post_cliff: string;
+    linear: string;
+    checkpoints: string;
+  };
+  claimed: string;
+  pending: string;
+  claimable: string;
+  locked: string;
+  iou: string;
+  vested_basis_points: string;
+  cliff_end_ns: string;
+  vesting_end_ns: string;
+  last_claim_at_ns: string | null;
+  revoked: boolean;
+};
+
+type GroupStats = {
+  investorCount: number;
+  totalAllocation: string;
+  totalClaimed: string;
+};
+
+type InvestorView = {
+  account_id: string;
+  token_id: string;
+  group_id: string;
+  total_allocation: string;
+  claimed: string;
+  pending: string;
+  receiver_id: string | null;
+};
+
+type GroupView = {
+  group_id: string;
+  config: GroupConfigStored | null;
+  investor_count: number;
+  total_allocation: string;
+  total_claimed: string;
+  earmarked: string;
+};
+
+type GroupChangeAction = 'added' | 'updated' | 'removed';
+
+type GroupHistoryEntry = {
+  action: GroupChangeAction;
+  actor: string;
+  timestampNs: string;
+  previous: GroupConfigStored | null;
+  current: GroupConfigStored | null;
+};
+
+type LedgerStatus = 'pending' | 'settled' | 'reverted';
+
+type ClaimHistoryEntry = {
+  tokenId: string;
+  receiverId: string;
+  amount: string;
+  iouPaid: string;
+  initiator: string;
+  timestampNs: string;
+  blockHeight: string;
+  status: LedgerStatus;
+  memo: string;
+  // Reverted attempts this entry replaced; a retry reuses the reverted entry's slot.
+  failedAttempts?: number;
+};
+
+type TreasuryAction = 'deposit' | 'withdrawal';
+
+type TreasuryHistoryEntry = {
+  action: TreasuryAction;
+  tokenId: string;
+  // The sender of a deposit or the recipient of a withdrawal.
+  accountId: string;
+  amount: string;
+  initiator: string;
+  timestampNs: string;
+  blockHeight: string;
+  status: LedgerStatus;
+  memo: string;
+};
+
+type RemoveGroupArgs = {
+  group_id: string;
+  target_group_id?: string;
+  limit?: number;
+};
+
+type RemoveGroupResult = {
+  moved: number;
+  remaining: number;
+  removed: boolean;
+};
+
+type Role = 'allocation_manager' | 'treasury' | 'operator' | 'config_admin';
+
+type PauseScope = 'claims' | 'group_claims' | 'account_claims' | 'funding' | 'withdrawals';
+
+type PauseArgs = {
+  scope: PauseScope;
+  target?: string;
+  reason: string;
+  expires_at_ns?: string;
+  exclude_from_vesting?: boolean;
+};
+
+type PauseRecord = {
+  scope: PauseScope;
+  target: string | null;
+  reason: string;
+  pausedAtNs: string;
+  expiresAtNs: string | null;
+  excludeFromVesting: boolean;
+};
+
+// A settled pause whose time is excluded from vesting.
+type ExcludedPause = {
+  startNs: string;
+  endNs: string;
+};
+
+// Start and end of an excluded pause; an open-ended active pause has no end.
+type PauseInterval = [bigint, bigint | null];
+
+// An investor's schedule and excluded pauses, resolved once for repeated vesting lookups.
+type VestingCurve = {
+  schedule: VestingSchedule;
+  pauses: PauseInterval[];
+  // The allocation before any revocation, and the amount a revocation froze it at.
+  total: bigint;
+  allocation: bigint;
+  revokedAtNs: bigint | null;
+};
+
+type PauseView = {
+  scope: PauseScope;
+  target: string | null;
+  reason: string;
+  paused_at_ns: string;
+  expires_at_ns: string | null;
+  exclude_from_vesting: boolean;
+};
+
+type StorageRecordType = 'investors' | 'groups' | 'merkle_roots' | 'roles' | 'pauses';
+
+// Who paid for an investor record's storage and how many bytes it added.
+type StorageDeposit = {
+  payer: string;
+  bytes: string;
+};
+
+type StorageReport = {
+  total_bytes: string;
+  storage_price_per_byte: string;
+  locked_balance: string;
+  record_types: { record_type: StorageRecordType; count: number; bytes: string }[];
+  other_bytes: string;
+};
+
+type TokenLedger = {
+  poolBalance: string;
+  totalDeposited: string;
+  totalClaimed: string;
+  totalWithdrawn: string;
+  totalCommitted: string;
+  totalIou: string;
+  totalEarmarked: string;
+};
+
+type TokenView = {
+  token_id: string;
+  pool_balance: string;
+  total_deposited: string;
+  total_claimed: string;
+  total_withdrawn: string;
+  total_committed: string;
+  total_iou: string;
+  total_earmarked: string;
+  min_deposit: string;
+};
+
+type Solvency = {
+  poolBalance: bigint;
+  committed: bigint;
+  earmarked: bigint;
+  free: bigint;
+  shortfall: bigint;
+};
+
+type SolvencyView = {
+  pool_balance: string;
+  committed: string;
+  earmarked: string;
+  free: string;
+  shortfall: string;
+};
+
+type PaginationArgs = {
+  from_index?: number;
+  limit?: number;
+};
+
+type MerkleAllocationInput = {
+  root: string;
+  group_id: string;
+  amount: string;
+  proof: string[];
+};
+
+type MerkleRootRecord = {
+  groupId: string;
+  addedAtNs: string;
+  revokedAtNs: string | null;
+};
+
+type MerkleRootView = {
+  root: string;
+  group_id: string;
+  added_at_ns: string;
+  revoked_at_ns: string | null;
+};
+
+type MerkleProofCheck = {
+  valid: boolean;
+  root_active: boolean;
+  materialized: boolean;
+};
+
+type ProjectionArgs = {
+  from_ns: string;
+  to_ns: string;
+  step_ns: string;
+};
+
+type UnlockPoint = {
+  timestamp_ns: string;
+  vested: string;
+  unlocked: string;
+};
+
+type NextUnlock = {
+  timestamp_ns: string;
+  amount: string;
+  linear: boolean;
+};
+
+type ProjectionPeriod = {
+  start_ns: string;
+  end_ns: string;
+  unlocked: string;
+};
+
+type GroupProjection = {
+  group_id: string;
+  token_id: string;
+  periods: ProjectionPeriod[];
+  next_index: number | null;
 };
 
 type ClaimArgs = {
   account_id?: string;
+  merkle_allocation?: MerkleAllocationInput;
+  amount?: string;
+  token_id?: string;
+  register_receiver?: boolean;
+  memo?: string;
+};
+
+type ShortfallPolicy = 'reject' | 'pay_available' | 'pro_rata';
+
+type DistributeArgs = PaginationArgs & {
+  account_ids?: string[];
+  group_id?: string;
+  token_id?: string;
+};
+
+type DistributionPayout = {
+  account_id: string;
+  token_id: string;
+  receiver_id: string;
+  amount: string;
+  iou_paid: string;
+  history_index?: number;
+  previous_claim_at_ns?: string;
+};
+
+type DistributeResult = {
+  distributed: string[];
+  skipped: string[];
+  next_index: number | null;
+};
+
+type TransferAllocationArgs = {
+  account_id?: string;
+  new_account_id: string;
+  amount?: string;
+  token_id?: string;
+};
+
+type RevocationMode = 'freeze' | 'settle';
+
+type RevokeArgs = {
+  account_id: string;
+  mode: RevocationMode;
+  token_id?: string;
 };
 
 type WithdrawArgs = {
   amount: string;
   recipient?: string;
   memo?: string;
+  token_id?: string;
 };
 
 type FtOnTransferArgs = {
@@ -47,25 +591,537 @@ type FtOnTransferArgs = {
   msg: string;
 };
 
+type DepositCommand = {
+  fund_group?: string;
+  allocate?: InvestorInput[];
+  refund_excess?: boolean;
+};
+
 type InitialClaimConfigInput = {
   initial_claim_basis_points?: string;
   initial_claim_available_timestamp_ns?: string;
 };
 
+type InvestorUpsertedEntry = {
+  account_id: string;
+  group_id: string;
+  previous_allocation: string;
+  total_allocation: string;
+  schedule_overrides: ScheduleOverrides | null;
+};
+
+type InvestorRemovedEntry = {
+  account_id: string;
+  token_id: string;
+  group_id: string;
+  previous_allocation: string;
+};
+
+type VestingEventPayloads = {
+  init: {
+    owner: string;
+    token_account_id: string;
+    tge_timestamp_ns: string;
+    initial_claim_basis_points: string;
+    initial_claim_available_timestamp_ns: string;
+    groups: Record<string, GroupConfigStored>;
+  };
+  groups_configured: {
+    groups: Record<string, GroupConfigStored>;
+  };
+  owner_proposed: {
+    owner: string;
+    pending_owner: string;
+  };
+  owner_proposal_cancelled: {
+    owner: string;
+    pending_owner: string;
+  };
+  owner_transferred: {
+    previous_owner: string;
+    owner: string;
+  };
+  role_granted: {
+    role: Role;
+    account_id: string;
+    granted_by: string;
+  };
+  role_revoked: {
+    role: Role;
+    account_id: string;
+    revoked_by: string;
+  };
+  paused: {
+    scope: PauseScope;
+    target: string | null;
+    reason: string;
+    expires_at_ns: string | null;
+    exclude_from_vesting: boolean;
+  };
+  unpaused: {
+    scope: PauseScope;
+    target: string | null;
+    paused_duration_ns: string;
+  };
+  merkle_root_added: {
+    root: string;
+    group_id: string;
+  };
+  merkle_root_revoked: {
+    root: string;
+    group_id: string;
+  };
+  merkle_allocation_materialized: {
+    account_id: string;
+    group_id: string;
+    amount: string;
+    root: string;
+  };
+  group_changed: {
+    group_id: string;
+    action: GroupChangeAction;
+    previous: GroupConfigStored | null;
+    current: GroupConfigStored | null;
+  };
+  investors_moved: {
+    from_group_id: string;
+    to_group_id: string;
+    account_ids: string[];
+  };
+  initial_claim_configured: {
+    initial_claim_basis_points: string;
+    initial_claim_available_timestamp_ns: string;
+  };
+  investors_upserted: {
+    investors: InvestorUpsertedEntry[];
+  };
+  claim_started: {
+    account_id: string;
+    token_id: string;
+    receiver_id: string;
+    amount: string;
+    iou_paid: string;
+    initiator: string;
+  };
+  iou_recorded: {
+    account_id: string;
+    token_id: string;
+    amount: string;
+    outstanding: string;
+  };
+  shortfall_policy_configured: {
+    policy: ShortfallPolicy;
+  };
+  min_deposit_configured: {
+    token_id: string;
+    amount: string;
+  };
+  registration_budget_funded: {
+    amount: string;
+    budget: string;
+  };
+  storage_credit_funded: {
+    account_id: string;
+    amount: string;
+    credit: string;
+  };
+  storage_credit_withdrawn: {
+    account_id: string;
+    amount: string;
+    credit: string;
+  };
+  receiver_registered: {
+    token_id: string;
+    receiver_id: string;
+    deposit: string;
+    from_budget: string;
+  };
+  receiver_registration_unfunded: {
+    token_id: string;
+    receiver_id: string;
+    required: string;
+  };
+  allocation_transferred: {
+    from_account_id: string;
+    to_account_id: string;
+    token_id: string;
+    total_allocation: string;
+    claimed: string;
+    initiator: string;
+  };
+  receiver_updated: {
+    account_id: string;
+    token_id: string | null;
+    receiver_id: string | null;
+  };
+  investors_pruned: {
+    token_id: string;
+    account_ids: string[];
+  };
+  investors_removed: {
+    investors: InvestorRemovedEntry[];
+  };
+  pending_claim_recovered: {
+    account_id: string;
+    token_id: string;
+    amount: string;
+    outcome: PendingClaimOutcome;
+  };
+  upgrade_started: {
+    code_hash: string;
+    state_version: number;
+  };
+  state_migrated: {
+    from_version: number;
+    to_version: number;
+    pending_records: number;
+  };
+  records_migrated: {
+    migrated: number;
+    pending_records: number;
+  };
+  investor_revoked: {
+    account_id: string;
+    token_id: string;
+    group_id: string;
+    mode: RevocationMode;
+    vested_amount: string;
+    unvested_amount: string;
+    timestamp_ns: string;
+  };
+  claim_completed: {
+    account_id: string;
+    token_id: string;
+    amount: string;
+  };
+  claim_reverted: {
+    account_id: string;
+    token_id: string;
+    amount: string;
+  };
+  claim_revert_skipped: {
+    account_id: string;
+    token_id: string;
+    amount: string;
+  };
+  withdraw_started: {
+    recipient: string;
+    token_id: string;
+    amount: string;
+    memo: string;
+  };
+  withdraw_completed: {
+    recipient: string;
+    token_id: string;
+    amount: string;
+  };
+  withdraw_reverted: {
+    recipient: string;
+    token_id: string;
+    amount: string;
+  };
+  deposit: {
+    sender_id: string;
+    token_id: string;
+    amount: string;
+    refunded: string;
+    msg: string;
+  };
+  deposit_refunded: {
+    sender_id: string;
+    token_id: string;
+    amount: string;
+    reason: string;
+  };
+  group_funded: {
+    group_id: string;
+    amount: string;
+    earmarked: string;
+  };
+};
+
+type VestingEvent = keyof VestingEventPayloads;
+
+function computeCheckpointAmount(
+  base: bigint,
+  checkpoints: UnlockCheckpoint[],
+  mode: UnlockMode,
+  elapsed: bigint,
+): bigint {
+  let previousOffset = BigInt(0);
+  let previousBps = BigInt(0);
+  for (const checkpoint of checkpoints) {
+    const offset = BigInt(checkpoint.offsetNs);
+    const bps = BigInt(checkpoint.cumulativeBasisPoints);
+    if (elapsed < offset) {
+      if (mode === 'step' || offset === previousOffset) {
+        return (base * previousBps) / BASIS_POINTS_DENOMINATOR;
+      }
+      // Interpolate between the previous checkpoint (or the schedule start) and this one.
+      const span = offset - previousOffset;
+      const numerator = previousBps * span + (bps - previousBps) * (elapsed - previousOffset);
+      return (base * numerator) / (BASIS_POINTS_DENOMINATOR * span);
+    }
+    previousOffset = offset;
+    previousBps = bps;
+  }
+  return (base * previousBps) / BASIS_POINTS_DENOMINATOR;
+}
+
+// Timestamps where the vested amount can jump or start accruing, before pause adjustments.
+function scheduleBoundaries(schedule: VestingSchedule): bigint[] {
+  const start = BigInt(schedule.startTimestampNs);
+  const boundaries = [BigInt(schedule.initialClaimAvailableTimestampNs)];
+  if (schedule.unlockCheckpoints && schedule.unlockCheckpoints.length > 0) {
+    boundaries.push(start);
+    for (const checkpoint of schedule.unlockCheckpoints) {
+      boundaries.push(start + BigInt(checkpoint.offsetNs));
+    }
+  } else {
+    const cliffEnd = start + BigInt(schedule.cliffDurationNs);
+    boundaries.push(cliffEnd, cliffEnd + BigInt(schedule.vestingDurationNs));
+  }
+  return boundaries.sort((left, right) => (left < right ? -1 : left > right ? 1 : 0));
+}
+
+// When the first tokens after the start unlock and when the schedule is complete.
+function scheduleEnds(schedule: VestingSchedule): [bigint, bigint] {
+  const start = BigInt(schedule.startTimestampNs);
+  const checkpoints = schedule.unlockCheckpoints;
+  if (checkpoints && checkpoints.length > 0) {
+    return [
+      start + BigInt(checkpoints[0].offsetNs),
+      start + BigInt(checkpoints[checkpoints.length - 1].offsetNs),
+    ];
+  }
+  const cliffEnd = start + BigInt(schedule.cliffDurationNs);
+  return [cliffEnd, cliffEnd + BigInt(schedule.vestingDurationNs)];
+}
+
+// Windows repeat every period from the TGE and stay open for their duration at its start.
+function nextWindowOpening(policy: ClaimPolicy, anchor: bigint, timestamp: bigint): bigint {
+  if (policy.windowPeriodNs === undefined || policy.windowDurationNs === undefined) {
+    return timestamp;
+  }
+  const period = BigInt(policy.windowPeriodNs);
+  const offset = (((timestamp - anchor) % period) + period) % period;
+  return offset < BigInt(policy.windowDurationNs) ? timestamp : timestamp + period - offset;
+}
+
+function claimGateMessage(gate: ClaimGate): string {
+  return gate.nextClaimAtNs === null
+    ? `Claim not allowed by the group's claim policy (${gate.reason})`
+    : `Claim not allowed by the group's claim policy (${gate.reason}); ` +
+        `next claim possible at ${gate.nextClaimAtNs} ns`;
+}
+
+// Time within [from, to] covered by the intervals; overlapping pauses are counted once.
+function excludedPauseTime(intervals: PauseInterval[], from: bigint, to: bigint): bigint {
+  const clipped = intervals
+    .map(([start, end]): [bigint, bigint] => [
+      start > from ? start : from,
+      end === null || end > to ? to : end,
+    ])
+    .filter(([start, end]) => end > start)
+    .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
+  let excluded = BigInt(0);
+  let covered = from;
+  for (const [start, end] of clipped) {
+    const begin = start > covered ? start : covered;
+    if (end > begin) {
+      excluded += end - begin;
+      covered = end;
+    }
+  }
+  return excluded;
+}
+
+// Every `step_ns` from `from_ns`, always ending exactly at `to_ns`.
+function projectionTimestamps({ from_ns, to_ns, step_ns }: ProjectionArgs): bigint[] {
+  const from = BigInt(from_ns);
+  const to = BigInt(to_ns);
+  const step = BigInt(step_ns);
+  if (step <= BigInt(0)) {
+    throw new Error('step_ns must be positive');
+  }
+  if (to < from) {
+    throw new Error('to_ns must not be before from_ns');
+  }
+  if ((to - from + step - BigInt(1)) / step + BigInt(1) > BigInt(MAX_PROJECTION_POINTS)) {
+    throw new Error(`A projection is limited to ${MAX_PROJECTION_POINTS} points`);
+  }
+  const timestamps: bigint[] = [];
+  for (let timestamp = from; timestamp < to; timestamp += step) {
+    timestamps.push(timestamp);
+  }
+  timestamps.push(to);
+  return timestamps;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/.test(hex)) {
+    throw new Error('Merkle hashes must be 32-byte lowercase hex strings');
+  }
+  const bytes = new Uint8Array(32);
+  for (let index = 0; index < 32; index++) {
+    bytes[index] = parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function compareBytes(left: Uint8Array, right: Uint8Array): number {
+  for (let index = 0; index < left.length && index < right.length; index++) {
+    if (left[index] !== right[index]) {
+      return left[index] - right[index];
+    }
+  }
+  return left.length - right.length;
+}
+
+// Leaves and inner nodes are domain-separated (0x00 / 0x01) and inner nodes hash sorted pairs.
+function merkleLeaf(accountId: string, groupId: string, amount: string): Uint8Array {
+  const payload = encode(JSON.stringify([accountId, groupId, amount]));
+  return near.sha256(concat(new Uint8Array([0]), payload));
+}
+
+// A later root may repeat a leaf for a new tranche, so each root's leaves are tracked apart.
+function materializedLeafKey(root: string, leaf: Uint8Array): string {
+  return `${root}:${toHex(leaf)}`;
+}
+
+function merkleRootFromProof(leaf: Uint8Array, proof: string[]): string {
+  let node = leaf;
+  for (const siblingHex of proof) {
+    const sibling = fromHex(siblingHex);
+    const [first, second] = compareBytes(node, sibling) <= 0 ? [node, sibling] : [sibling, node];
+    node = near.sha256(concat(new Uint8Array([1]), concat(first, second)));
+  }
+  return toHex(node);
+}
+
+// Investor records are keyed per token, so one account can vest several tokens.
+function investorKey(tokenId: string, accountId: string): string {
+  return `${tokenId}:${accountId}`;
+}
+
+function splitInvestorKey(key: string): [string, string] {
+  const separator = key.indexOf(':');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+// Version 0 stored investors under the bare account id, which never contains a colon.
+function isLegacyInvestorKey(key: string): boolean {
+  return !key.includes(':');
+}
+
+// Copies stored state onto a freshly constructed contract. Fields the stored layout lacks keep
+// their defaults, and fields the current layout dropped are left behind.
+function restoreState(contract: object, stored: Record<string, unknown>): void {
+  const fields = contract as Record<string, unknown>;
+  for (const field of Object.keys(fields)) {
+    if (stored[field] === undefined) {
+      continue;
+    }
+    const current = fields[field] as { constructor?: { reconstruct?(data: unknown): unknown } };
+    const reconstruct = current?.constructor?.reconstruct;
+    fields[field] = reconstruct ? reconstruct(stored[field]) : stored[field];
+  }
+}
+
+function emptyLedger(): TokenLedger {
+  return {
+    poolBalance: '0',
+    totalDeposited: '0',
+    totalClaimed: '0',
+    totalWithdrawn: '0',
+    totalCommitted: '0',
+    totalIou: '0',
+    totalEarmarked: '0',
+  };
+}
+
+function resolvePage(length: number, { from_index, limit }: PaginationArgs): [number, number] {
+  const start = from_index ?? 0;
+  const size = limit ?? DEFAULT_PAGE_LIMIT;
+  if (!Number.isInteger(start) || start < 0) {
+    throw new Error('from_index must be a non-negative integer');
+  }
+  if (!Number.isInteger(size) || size <= 0 || size > MAX_PAGE_LIMIT) {
+    throw new Error(`limit must be between 1 and ${MAX_PAGE_LIMIT}`);
+  }
+  return [start, Math.min(start + size, length)];
+}
+
+function emitEvent<E extends VestingEvent>(event: E, data: VestingEventPayloads[E]): void {
+  near.log(
+    `EVENT_JSON:${JSON.stringify({
+      standard: EVENT_STANDARD,
+      version: EVENT_VERSION,
+      event,
+      data: [data],
+    })}`,
+  );
+}
 
 @NearBindgen({ requireInit: true })
 class InvestorVesting {
+  stateVersion: number = STATE_VERSION;
+  // Investor records still under version 0 keys, and where migrate_records resumes.
+  pendingRecords: number = 0;
+  migrationCursor: number = 0;
   owner: string = '';
+  pendingOwner: string = '';
   tokenAccountId: string = '';
   tgeTimestampNs: string = '0';
   initialClaimBasisPoints: string = '0';
   initialClaimAvailableTimestampNs: string = '0';
-  totalDeposited: string = '0';
-  totalClaimed: string = '0';
-  totalWithdrawn: string = '0';
-  poolBalance: string = '0';
+  shortfallPolicy: ShortfallPolicy = 'reject';
+  registrationBudget: string = '0';
   groups: UnorderedMap<GroupConfigStored> = new UnorderedMap<GroupConfigStored>('groups:');
   investors: UnorderedMap<InvestorRecord> = new UnorderedMap<InvestorRecord>('investors:');
+  groupStats: UnorderedMap<GroupStats> = new UnorderedMap<GroupStats>('group_stats:');
+  groupMembers: UnorderedMap<UnorderedSet<string>> = new UnorderedMap<UnorderedSet<string>>(
+    'group_members:',
+  );
+  roleMembers: UnorderedMap<UnorderedSet<string>> = new UnorderedMap<UnorderedSet<string>>(
+    'role_members:',
+  );
+  merkleRoots: UnorderedMap<MerkleRootRecord> = new UnorderedMap<MerkleRootRecord>(
+    'merkle_roots:',
+  );
+  materializedLeaves: LookupSet<string> = new LookupSet<string>('merkle_leaves:');
+  pauses: UnorderedMap<PauseRecord> = new UnorderedMap<PauseRecord>('pauses:');
+  excludedPauses: UnorderedMap<ExcludedPause[]> = new UnorderedMap<ExcludedPause[]>(
+    'excluded_pauses:',
+  );
+  groupChanges: UnorderedMap<Vector<GroupHistoryEntry>> = new UnorderedMap<
+    Vector<GroupHistoryEntry>
+  >('group_changes:');
+  iouHolders: UnorderedSet<string> = new UnorderedSet<string>('iou_holders:');
+  groupFunds: UnorderedMap<string> = new UnorderedMap<string>('group_funds:');
+  tokens: UnorderedMap<TokenLedger> = new UnorderedMap<TokenLedger>('tokens:');
+  storageDeposits: UnorderedMap<StorageDeposit> = new UnorderedMap<StorageDeposit>(
+    'storage_deposits:',
+  );
+  storageBytes: UnorderedMap<string> = new UnorderedMap<string>('storage_bytes:');
+  // NEAR allocation managers prepay for records created by `allocate` deposit commands.
+  storageCredits: UnorderedMap<string> = new UnorderedMap<string>('storage_credits:');
+  claimHistories: UnorderedMap<Vector<ClaimHistoryEntry>> = new UnorderedMap<
+    Vector<ClaimHistoryEntry>
+  >('claim_histories:');
+  treasuryHistory: Vector<TreasuryHistoryEntry> = new Vector<TreasuryHistoryEntry>(
+    'treasury_history:',
+  );
+  // Smaller token deposits are refunded, so dust transfers cannot grow the treasury ledger.
+  minDeposits: UnorderedMap<string> = new UnorderedMap<string>('min_deposits:');
 
   @initialize({})
   init({
@@ -95,388 +1151,3647 @@ class InvestorVesting {
 
     this.owner = owner ?? near.predecessorAccountId();
     this.tokenAccountId = token_account_id;
+    this.registerToken(token_account_id);
     this.tgeTimestampNs = tge_timestamp_ns;
     this.setInitialClaimConfig({
       initial_claim_basis_points,
       initial_claim_available_timestamp_ns,
     });
     this.setGroupsInternal(groups);
+
+    emitEvent('init', {
+      owner: this.owner,
+      token_account_id: this.tokenAccountId,
+      tge_timestamp_ns: this.tgeTimestampNs,
+      initial_claim_basis_points: this.initialClaimBasisPoints,
+      initial_claim_available_timestamp_ns: this.initialClaimAvailableTimestampNs,
+      groups: this.serializeGroups(),
+    });
   }
 
   @call({})
-  configure_groups({ groups }: { groups: GroupConfigInput[] }): void {
+  propose_owner({ new_owner }: { new_owner: string }): void {
     this.assertOwner();
-    this.setGroupsInternal(groups);
+    if (!new_owner) {
+      throw new Error('new_owner is required');
+    }
+    if (new_owner === this.owner) {
+      throw new Error('new_owner is already the owner');
+    }
+    this.pendingOwner = new_owner;
+    emitEvent('owner_proposed', { owner: this.owner, pending_owner: new_owner });
   }
 
   @call({})
-  configure_initial_claim(args: InitialClaimConfigInput): void {
+  cancel_owner_proposal(): void {
     this.assertOwner();
-    if (
-      !args ||
+    if (this.pendingOwner === '') {
+      throw new Error('No pending owner proposal');
+    }
+    const pendingOwner = this.pendingOwner;
+    this.pendingOwner = '';
+    emitEvent('owner_proposal_cancelled', { owner: this.owner, pending_owner: pendingOwner });
+  }
+
+  @call({})
+  accept_owner(): void {
+    if (this.pendingOwner === '' || near.predecessorAccountId() !== this.pendingOwner) {
+      throw new Error('Only the pending owner can accept ownership');
+    }
+    const previousOwner = this.owner;
+    this.owner = this.pendingOwner;
+    this.pendingOwner = '';
+    emitEvent('owner_transferred', { previous_owner: previousOwner, owner: this.owner });
+  }
+
+  @call({})
+  grant_role({ role, account_id }: { role: Role; account_id: string }): void {
+    this.assertOwner();
+    this.assertKnownRole(role);
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const usage = near.storageUsage();
+    const members = this.roleAccounts(role);
+    if (!members.set(account_id)) {
+      throw new Error(`${account_id} already holds role ${role}`);
+    }
+    this.roleMembers.set(role, members);
+    this.trackStorage('roles', usage);
+    emitEvent('role_granted', { role, account_id, granted_by: near.predecessorAccountId() });
+  }
+
+  @call({})
+  revoke_role({ role, account_id }: { role: Role; account_id: string }): void {
+    this.assertOwner();
+    this.assertKnownRole(role);
+    const usage = near.storageUsage();
+    const members = this.roleAccounts(role);
+    if (!members.remove(account_id)) {
+      throw new Error(`${account_id} does not hold role ${role}`);
+    }
+    this.roleMembers.set(role, members);
+    this.trackStorage('roles', usage);
+    emitEvent('role_revoked', { role, account_id, revoked_by: near.predecessorAccountId() });
+  }
+
+  @call({})
+  pause({ scope, target, reason, expires_at_ns, exclude_from_vesting }: PauseArgs): void {
+    const excludeFromVesting = exclude_from_vesting === true;
+    // Excluded time shifts every affected schedule, so it is a config decision, not an operator's.
+    if (!excludeFromVesting) {
+      this.assertRole('operator');
+    } else if (!this.hasRole('config_admin', near.predecessorAccountId())) {
+      throw new Error('Only owner or config_admin can exclude paused time from vesting');
+    }
+    const key = this.pauseKey(scope, target);
+    if (!reason) {
+      throw new Error('reason is required');
+    }
+    const now = BigInt(near.blockTimestamp());
+    const expiresAt = expires_at_ns === undefined ? null : BigInt(expires_at_ns);
+    if (expiresAt !== null && expiresAt <= now) {
+      throw new Error('expires_at_ns must be in the future');
+    }
+    if (excludeFromVesting && (scope === 'funding' || scope === 'withdrawals')) {
+      throw new Error('exclude_from_vesting only applies to claim pauses');
+    }
+    const usage = near.storageUsage();
+    const existing = this.pauses.get(key);
+    if (existing) {
+      if (this.isPauseActive(existing, now)) {
+        throw new Error(`Scope ${key} is already paused`);
+      }
+      this.settlePause(key, existing, now);
+    }
+
+    this.pauses.set(key, {
+      scope,
+      target: target ?? null,
+      reason,
+      pausedAtNs: now.toString(),
+      expiresAtNs: expiresAt === null ? null : expiresAt.toString(),
+      excludeFromVesting,
+    });
+    this.trackStorage('pauses', usage);
+    emitEvent('paused', {
+      scope,
+      target: target ?? null,
+      reason,
+      expires_at_ns: expiresAt === null ? null : expiresAt.toString(),
+      exclude_from_vesting: excludeFromVesting,
+    });
+  }
+
+  @call({})
+  unpause({ scope, target }: { scope: PauseScope; target?: string }): void {
+    this.assertOwner();
+    const key = this.pauseKey(scope, target);
+    const existing = this.pauses.get(key);
+    if (!existing) {
+      throw new Error(`Scope ${key} is not paused`);
+    }
+    const usage = near.storageUsage();
+    const duration = this.settlePause(key, existing, BigInt(near.blockTimestamp()));
+    this.trackStorage('pauses', usage);
+    emitEvent('unpaused', {
+      scope,
+      target: target ?? null,
+      paused_duration_ns: duration.toString(),
+    });
+  }
+
+  @call({})
+  configure_groups({ groups }: { groups: GroupConfigInput[] }): void {
+    this.assertRole('config_admin');
+    this.assertRecordsMigrated();
+    this.setGroupsInternal(groups);
+    emitEvent('groups_configured', { groups: this.serializeGroups() });
+  }
+
+  @call({})
+  add_group({ group }: { group: GroupConfigInput }): void {
+    this.assertRole('config_admin');
+    if (!group || !group.id) {
+      throw new Error('group id is required');
+    }
+    if (this.groups.get(group.id)) {
+      throw new Error(`Group ${group.id} already exists`);
+    }
+    const config = this.parseGroupConfig(group);
+    const usage = near.storageUsage();
+    this.registerToken(config.tokenId);
+    this.groups.set(group.id, config);
+    this.recordGroupChange(group.id, null, config);
+    this.trackStorage('groups', usage);
+  }
+
+  @call({})
+  update_group({ group }: { group: GroupConfigInput }): void {
+    this.assertRole('config_admin');
+    this.assertRecordsMigrated();
+    if (!group || !group.id) {
+      throw new Error('group id is required');
+    }
+    const previous = this.groups.get(group.id);
+    if (!previous) {
+      throw new Error(`Unknown group_id ${group.id}`);
+    }
+    const config = this.parseGroupConfig(group, previous.tokenId);
+    this.assertGroupTransition(group.id, previous, config);
+    const usage = near.storageUsage();
+    this.registerToken(config.tokenId);
+    this.groups.set(group.id, config);
+    this.recordGroupChange(group.id, previous, config);
+    this.trackStorage('groups', usage);
+  }
+
+  @call({})
+  remove_group({ group_id, target_group_id, limit }: RemoveGroupArgs): RemoveGroupResult {
+    this.assertRole('config_admin');
+    this.assertRecordsMigrated();
+    if (!group_id) {
+      throw new Error('group_id is required');
+    }
+    const config = this.groups.get(group_id);
+    if (!config) {
+      throw new Error(`Unknown group_id ${group_id}`);
+    }
+
+    const members = this.groupInvestors(group_id);
+    let moved = 0;
+    if (members.length > 0) {
+      if (!target_group_id) {
+        throw new Error(
+          `Group ${group_id} still has ${members.length} investors; provide target_group_id`,
+        );
+      }
+      if (target_group_id === group_id) {
+        throw new Error('target_group_id must differ from group_id');
+      }
+      const target = this.groups.get(target_group_id);
+      if (!target) {
+        throw new Error(`Unknown group_id ${target_group_id}`);
+      }
+      this.assertGroupTransition(group_id, config, target);
+
+      const [, end] = resolvePage(members.length, { limit });
+      const accountIds = members.elements({ start: 0, limit: end });
+      for (const accountId of accountIds) {
+        const key = investorKey(config.tokenId, accountId);
+        const record = this.investors.get(key)!;
+        // A rollback books the claim back to the record's group, so it must not change under it.
+        this.assertNoPendingClaim(accountId, record);
+        const next: InvestorRecord = { ...record, groupId: target_group_id };
+        this.investors.set(key, next);
+        this.reindexInvestor(accountId, record, next);
+      }
+      moved = accountIds.length;
+      emitEvent('investors_moved', {
+        from_group_id: group_id,
+        to_group_id: target_group_id,
+        account_ids: accountIds,
+      });
+    }
+
+    // Large groups are drained over several calls; the config stays until no investor remains.
+    const remaining = this.groupInvestors(group_id).length;
+    if (remaining === 0) {
+      const usage = near.storageUsage();
+      this.releaseEarmark(group_id, target_group_id);
+      this.groups.remove(group_id);
+      this.recordGroupChange(group_id, config, null);
+      this.trackStorage('groups', usage);
+    }
+    return { moved, remaining, removed: remaining === 0 };
+  }
+
+  @call({})
+  configure_initial_claim(args: InitialClaimConfigInput): void {
+    this.assertRole('config_admin');
+    if (
+      !args ||
       (args.initial_claim_basis_points === undefined &&
         args.initial_claim_available_timestamp_ns === undefined)
     ) {
       throw new Error('At least one initial claim parameter must be provided');
     }
-    this.setInitialClaimConfig(args);
+    this.setInitialClaimConfig(args);
+    emitEvent('initial_claim_configured', {
+      initial_claim_basis_points: this.initialClaimBasisPoints,
+      initial_claim_available_timestamp_ns: this.initialClaimAvailableTimestampNs,
+    });
+  }
+
+  @call({})
+  configure_shortfall_policy({ policy }: { policy: ShortfallPolicy }): void {
+    this.assertRole('config_admin');
+    if (!SHORTFALL_POLICIES.includes(policy)) {
+      throw new Error(`policy must be one of: ${SHORTFALL_POLICIES.join(', ')}`);
+    }
+    this.shortfallPolicy = policy;
+    emitEvent('shortfall_policy_configured', { policy });
+  }
+
+  @call({})
+  configure_min_deposit({ amount, token_id }: { amount: string; token_id?: string }): void {
+    this.assertRole('config_admin');
+    const tokenId = token_id ?? this.tokenAccountId;
+    if (!this.tokens.get(tokenId)) {
+      throw new Error(`Unknown token ${tokenId}`);
+    }
+    const minimum = this.parseNonNegative(amount, 'amount');
+    if (minimum === '0') {
+      this.minDeposits.remove(tokenId);
+    } else {
+      this.minDeposits.set(tokenId, minimum);
+    }
+    emitEvent('min_deposit_configured', { token_id: tokenId, amount: minimum });
+  }
+
+  @call({ payableFunction: true })
+  upsert_investors({
+    investors,
+    strict,
+    mode,
+    from_index,
+    limit,
+  }: {
+    investors: InvestorInput[];
+    strict?: boolean;
+    mode?: UpsertMode;
+  } & PaginationArgs): UpsertResult {
+    this.assertRole('allocation_manager');
+    this.assertRecordsMigrated();
+    const page = this.resolveUpsertMode(mode, { from_index, limit });
+    const [bytes, removed, nextIndex] = this.upsertInvestorsInternal(
+      investors,
+      strict === true,
+      near.predecessorAccountId(),
+      mode,
+      page,
+    );
+    this.chargeStorageBytes(bytes, near.attachedDeposit());
+    return { removed, next_index: nextIndex };
+  }
+
+  @call({})
+  prune_investors({
+    account_ids,
+    token_id,
+  }: {
+    account_ids: string[];
+    token_id?: string;
+  }): string[] {
+    this.assertRole('allocation_manager');
+    this.assertRecordsMigrated();
+    if (!Array.isArray(account_ids) || account_ids.length === 0) {
+      throw new Error('account_ids array required');
+    }
+    if (account_ids.length > MAX_PAGE_LIMIT) {
+      throw new Error(`At most ${MAX_PAGE_LIMIT} accounts can be pruned per call`);
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    const usage = near.storageUsage();
+    const refunds = new Map<string, bigint>();
+    const pruned: string[] = [];
+    for (const accountId of account_ids) {
+      const key = investorKey(tokenId, accountId);
+      const record = this.investors.get(key);
+      // Revoked records stay so the account cannot be allocated again.
+      if (
+        !record ||
+        BigInt(record.claimed) !== BigInt(record.totalAllocation) ||
+        record.iou !== undefined ||
+        record.revokedAtNs !== undefined ||
+        record.pendingClaim !== undefined
+      ) {
+        continue;
+      }
+      this.removeInvestor(key, accountId, record, refunds);
+      pruned.push(accountId);
+    }
+    this.trackStorage('investors', usage);
+    for (const [payer, refund] of refunds) {
+      this.refundNear(payer, refund);
+    }
+    emitEvent('investors_pruned', { token_id: tokenId, account_ids: pruned });
+    return pruned;
+  }
+
+  @call({ payableFunction: true })
+  transfer_allocation({
+    account_id,
+    new_account_id,
+    amount,
+    token_id,
+  }: TransferAllocationArgs): void {
+    // Anything attached beyond the 1 yocto guard pays for the new record's storage.
+    if (near.attachedDeposit() < ONE_YOCTO) {
+      throw new Error('Requires attached deposit of at least 1 yoctoNEAR');
+    }
+    this.assertRecordsMigrated();
+    const source = account_id ?? near.predecessorAccountId();
+    if (source !== near.predecessorAccountId()) {
+      this.assertRole('allocation_manager');
+    }
+    if (!new_account_id || new_account_id === source) {
+      throw new Error('new_account_id must be a different account');
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    const sourceKey = investorKey(tokenId, source);
+    const destinationKey = investorKey(tokenId, new_account_id);
+    const record = this.investors.get(sourceKey);
+    if (!record) {
+      throw new Error('No allocation found for this account');
+    }
+    this.assertNoPendingClaim(source, record);
+    if (record.revokedAtNs !== undefined) {
+      throw new Error('Revoked allocations cannot be transferred');
+    }
+    if (record.iou !== undefined) {
+      throw new Error('Outstanding IOU must be paid before transferring the allocation');
+    }
+    if (this.investors.get(destinationKey)) {
+      throw new Error(`${new_account_id} already has an allocation`);
+    }
+
+    const total = BigInt(record.totalAllocation);
+    const claimed = BigInt(record.claimed);
+    const moved = amount === undefined ? total : BigInt(amount);
+    if (moved <= BigInt(0) || moved > total) {
+      throw new Error('amount must be positive and at most the total allocation');
+    }
+    // Claimed tokens follow the moved share pro rata so both sides keep the same vesting ratio.
+    const movedClaimed = moved === total ? claimed : (claimed * moved) / total;
+    if (moved === movedClaimed) {
+      throw new Error('Nothing left to transfer for this allocation');
+    }
+
+    const destination: InvestorRecord = {
+      ...record,
+      totalAllocation: moved.toString(),
+      claimed: movedClaimed.toString(),
+      receiverId: undefined,
+      // Claim history stays with the source account.
+      revertedClaimIndex: undefined,
+    };
+    const usage = near.storageUsage();
+    const sourceDeposit = this.storageDeposits.get(sourceKey);
+    if (moved === total) {
+      this.investors.remove(sourceKey);
+      this.reindexInvestor(source, record, null);
+      if (sourceDeposit) {
+        this.storageDeposits.remove(sourceKey);
+      }
+    } else {
+      const remaining: InvestorRecord = {
+        ...record,
+        totalAllocation: (total - moved).toString(),
+        claimed: (claimed - movedClaimed).toString(),
+      };
+      this.investors.set(sourceKey, remaining);
+      this.reindexInvestor(source, record, remaining);
+    }
+    this.investors.set(destinationKey, destination);
+    this.reindexInvestor(new_account_id, null, destination);
+    // A whole move keeps the original payer; a split is paid for by the caller.
+    const added = near.storageUsage() - usage;
+    if (moved === total && sourceDeposit) {
+      this.storageDeposits.set(destinationKey, sourceDeposit);
+    } else if (moved !== total) {
+      this.storageDeposits.set(destinationKey, {
+        payer: near.predecessorAccountId(),
+        bytes: added.toString(),
+      });
+    }
+    this.trackStorage('investors', usage);
+    this.chargeStorageBytes(added, near.attachedDeposit() - ONE_YOCTO);
+
+    emitEvent('allocation_transferred', {
+      from_account_id: source,
+      to_account_id: new_account_id,
+      token_id: tokenId,
+      total_allocation: moved.toString(),
+      claimed: movedClaimed.toString(),
+      initiator: near.predecessorAccountId(),
+    });
+  }
+
+  @call({ payableFunction: true })
+  set_receiver({ receiver_id, token_id }: { receiver_id: string | null; token_id?: string }): void {
+    this.assertOneYocto();
+    this.assertRecordsMigrated();
+    const accountId = near.predecessorAccountId();
+    const receiverId = receiver_id && receiver_id !== accountId ? receiver_id : undefined;
+    // Without token_id the receiver applies to every token the account vests.
+    const usage = near.storageUsage();
+    let updated = 0;
+    for (const tokenId of token_id === undefined ? this.tokenIds() : [token_id]) {
+      const key = investorKey(tokenId, accountId);
+      const record = this.investors.get(key);
+      if (record) {
+        this.investors.set(key, { ...record, receiverId });
+        updated += 1;
+      }
+    }
+    if (updated === 0) {
+      throw new Error('No allocation found for this account');
+    }
+    this.trackStorage('investors', usage);
+    emitEvent('receiver_updated', {
+      account_id: accountId,
+      token_id: token_id ?? null,
+      receiver_id: receiverId ?? null,
+    });
+  }
+
+  @call({})
+  add_merkle_root({ group_id, root }: { group_id: string; root: string }): void {
+    this.assertRole('allocation_manager');
+    if (!this.groups.get(group_id)) {
+      throw new Error(`Unknown group_id ${group_id}`);
+    }
+    fromHex(root);
+    if (this.merkleRoots.get(root)) {
+      throw new Error('Merkle root already registered');
+    }
+    const usage = near.storageUsage();
+    this.merkleRoots.set(root, {
+      groupId: group_id,
+      addedAtNs: near.blockTimestamp().toString(),
+      revokedAtNs: null,
+    });
+    this.trackStorage('merkle_roots', usage);
+    emitEvent('merkle_root_added', { root, group_id });
+  }
+
+  @call({})
+  revoke_merkle_root({ root }: { root: string }): void {
+    this.assertRole('allocation_manager');
+    const record = this.merkleRoots.get(root);
+    if (!record) {
+      throw new Error('Unknown merkle root');
+    }
+    if (record.revokedAtNs !== null) {
+      throw new Error('Merkle root already revoked');
+    }
+    const usage = near.storageUsage();
+    this.merkleRoots.set(root, { ...record, revokedAtNs: near.blockTimestamp().toString() });
+    this.trackStorage('merkle_roots', usage);
+    emitEvent('merkle_root_revoked', { root, group_id: record.groupId });
+  }
+
+  @call({ payableFunction: true })
+  claim({
+    account_id,
+    merkle_allocation,
+    amount,
+    token_id,
+    register_receiver,
+    memo,
+  }: ClaimArgs): NearPromise | void {
+    this.assertRecordsMigrated();
+    // Anything attached beyond the 1 yocto guard pays for materializing a Merkle allocation
+    // first and then for the first receiver registration.
+    let registrationDeposit = BigInt(0);
+    if (register_receiver === true || merkle_allocation) {
+      if (near.attachedDeposit() < ONE_YOCTO) {
+        throw new Error('Requires attached deposit of at least 1 yoctoNEAR');
+      }
+      registrationDeposit = near.attachedDeposit() - ONE_YOCTO;
+    } else {
+      this.assertOneYocto();
+    }
+    const claimant = account_id ?? near.predecessorAccountId();
+    const isSelfClaim = claimant === near.predecessorAccountId();
+    if (!isSelfClaim && !this.hasRole('operator', near.predecessorAccountId())) {
+      throw new Error('Only owner or operators can claim on behalf of investors');
+    }
+
+    if (merkle_allocation) {
+      const { root, group_id, amount: leafAmount } = merkle_allocation;
+      const leaf = merkleLeaf(claimant, group_id, leafAmount);
+      // Frontends may keep passing the leaf after it has been materialised.
+      if (!this.materializedLeaves.contains(materializedLeafKey(root, leaf))) {
+        const cost =
+          this.materializeMerkleAllocation(claimant, merkle_allocation) * STORAGE_PRICE_PER_BYTE;
+        if (registrationDeposit < cost) {
+          throw new Error(`Attach at least ${cost + ONE_YOCTO} yoctoNEAR to cover storage`);
+        }
+        registrationDeposit -= cost;
+      }
+    }
+
+    // A partial amount only makes sense for one token; otherwise every token is claimed.
+    const tokenIds =
+      token_id !== undefined || amount !== undefined
+        ? [token_id ?? this.tokenAccountId]
+        : this.tokenIds();
+    const timestamp = BigInt(near.blockTimestamp());
+    const transfers: NearPromise[] = [];
+    let found = false;
+    let booked = false;
+    let rejected = false;
+    let pausedGroupId: string | null = null;
+    let pendingRecord: InvestorRecord | null = null;
+    let refusedGate: ClaimGate | null = null;
+    for (const tokenId of tokenIds) {
+      const record = this.investors.get(investorKey(tokenId, claimant));
+      if (!record) {
+        continue;
+      }
+      found = true;
+      // Claiming every token skips paused groups instead of failing the whole claim.
+      if (tokenIds.length > 1 && this.claimsPaused(claimant, record.groupId)) {
+        pausedGroupId = record.groupId;
+        continue;
+      }
+      this.assertClaimsNotPaused(claimant, record.groupId);
+      if (tokenIds.length > 1 && record.pendingClaim !== undefined) {
+        pendingRecord = record;
+        continue;
+      }
+      this.assertNoPendingClaim(claimant, record);
+
+      const claimable = this.computeClaimable(claimant, tokenId, timestamp);
+      let requested = claimable;
+      if (amount !== undefined) {
+        requested = BigInt(amount);
+        if (requested <= BigInt(0)) {
+          throw new Error('Claim amount must be positive');
+        }
+        if (requested > claimable) {
+          throw new Error('Requested amount exceeds claimable amount');
+        }
+      }
+      if (requested <= BigInt(0) && record.iou === undefined) {
+        continue;
+      }
+      // IOU-only payouts are not gated; the IOU was claimed under the policy already.
+      const gate =
+        requested > BigInt(0) ? this.claimGate(claimant, record, requested, timestamp) : null;
+      if (gate) {
+        if (tokenIds.length > 1) {
+          refusedGate = gate;
+          continue;
+        }
+        throw new Error(claimGateMessage(gate));
+      }
+
+      const claim = this.applyClaim(claimant, record, requested);
+      if (!claim) {
+        rejected = true;
+        continue;
+      }
+      booked = true;
+      if (claim[0] > BigInt(0)) {
+        const register = register_receiver === true && tokenId !== NATIVE_TOKEN_ID;
+        transfers.push(
+          this.startClaimTransfer(
+            claimant,
+            record,
+            claim[0],
+            claim[1],
+            register ? registrationDeposit : undefined,
+            memo,
+          ),
+        );
+        if (register) {
+          registrationDeposit = BigInt(0);
+        }
+      }
+    }
+
+    if (!found) {
+      throw new Error('No allocation found for this account');
+    }
+    if (!booked) {
+      if (pausedGroupId !== null) {
+        this.assertClaimsNotPaused(claimant, pausedGroupId);
+      }
+      if (pendingRecord !== null) {
+        this.assertNoPendingClaim(claimant, pendingRecord);
+      }
+      if (refusedGate !== null) {
+        throw new Error(claimGateMessage(refusedGate));
+      }
+      throw new Error(
+        rejected
+          ? 'Insufficient available pool balance; try again later'
+          : 'Nothing to claim at this time',
+      );
+    }
+    this.refundNear(near.predecessorAccountId(), registrationDeposit);
+    if (transfers.length === 0) {
+      return;
+    }
+    return transfers.slice(1).reduce((joined, next) => joined.and(next), transfers[0]);
+  }
+
+  @call({ payableFunction: true })
+  distribute({
+    account_ids,
+    group_id,
+    token_id,
+    from_index,
+    limit,
+  }: DistributeArgs): DistributeResult {
+    this.assertRole('operator');
+    this.assertOneYocto();
+    this.assertRecordsMigrated();
+    if ((account_ids === undefined) === (group_id === undefined)) {
+      throw new Error('Provide exactly one of account_ids or group_id');
+    }
+    if (group_id !== undefined && token_id !== undefined) {
+      throw new Error('token_id is implied by group_id');
+    }
+    this.assertNotPaused(this.pauseKey('claims'));
+    const tokenId =
+      group_id === undefined ? token_id ?? this.tokenAccountId : this.tokenOf(group_id);
+
+    const members = group_id === undefined ? null : this.groupInvestors(group_id);
+    const accountIds = account_ids ?? [];
+    const total = members ? members.length : accountIds.length;
+    const [start, end] = resolvePage(total, { from_index, limit });
+    let candidates: string[] = [];
+    if (start < end) {
+      candidates = members
+        ? members.elements({ start, limit: end - start })
+        : accountIds.slice(start, end);
+    }
+
+    const timestamp = BigInt(near.blockTimestamp());
+    const payouts: DistributionPayout[] = [];
+    const skipped: string[] = [];
+    let nextIndex = start;
+    let nativeOutflow = BigInt(0);
+    for (const accountId of candidates) {
+      // Stop early rather than fail: the caller resumes from next_index.
+      const reserved =
+        GAS_FOR_RESOLVE +
+        GAS_FOR_BOOKKEEPING +
+        BigInt(payouts.length + 1) * (GAS_FOR_BATCH_FT_TRANSFER + GAS_FOR_RESOLVE_PER_PAYOUT);
+      if (near.prepaidGas() - near.usedGas() < reserved) {
+        break;
+      }
+      nextIndex += 1;
+      const record = this.investors.get(investorKey(tokenId, accountId));
+      if (
+        !record ||
+        record.pendingClaim !== undefined ||
+        this.claimsPaused(accountId, record.groupId)
+      ) {
+        skipped.push(accountId);
+        continue;
+      }
+      const claimable = this.computeClaimable(accountId, tokenId, timestamp);
+      const claim =
+        claimable > BigInt(0) || record.iou !== undefined
+          ? this.applyClaim(accountId, record, claimable, nativeOutflow)
+          : null;
+      if (!claim || claim[0] === BigInt(0)) {
+        skipped.push(accountId);
+        continue;
+      }
+      payouts.push({
+        account_id: accountId,
+        token_id: tokenId,
+        receiver_id: record.receiverId ?? accountId,
+        amount: claim[0].toString(),
+        iou_paid: claim[1].toString(),
+        previous_claim_at_ns: record.lastClaimAtNs,
+      });
+      if (tokenId === NATIVE_TOKEN_ID) {
+        nativeOutflow += claim[0];
+      }
+    }
+
+    if (payouts.length > 0) {
+      this.startDistribution(payouts).build();
+    }
+    return {
+      distributed: payouts.map((payout) => payout.account_id),
+      skipped,
+      next_index: nextIndex < total ? nextIndex : null,
+    };
+  }
+
+  @call({ payableFunction: true })
+  revoke_investor({ account_id, mode, token_id }: RevokeArgs): NearPromise | void {
+    this.assertRole('allocation_manager');
+    this.assertOneYocto();
+    this.assertRecordsMigrated();
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    if (mode !== 'freeze' && mode !== 'settle') {
+      throw new Error('mode must be either freeze or settle');
+    }
+
+    const key = investorKey(token_id ?? this.tokenAccountId, account_id);
+    const record = this.investors.get(key);
+    if (!record) {
+      throw new Error('No allocation found for this account');
+    }
+    if (record.revokedAtNs !== undefined) {
+      throw new Error(`Investor ${account_id} is already revoked`);
+    }
+    this.assertNoPendingClaim(account_id, record);
+    const group = this.groups.get(record.groupId);
+    if (!group) {
+      throw new Error(`Unknown group_id ${record.groupId}`);
+    }
+    if (group.revocable !== true) {
+      throw new Error(`Group ${record.groupId} is not revocable`);
+    }
+    // Settling pays the investor out, so it honours claim pauses; freezing still works.
+    if (mode === 'settle') {
+      this.assertClaimsNotPaused(account_id, record.groupId);
+    }
+
+    const now = BigInt(near.blockTimestamp());
+    const total = BigInt(record.totalAllocation);
+    const claimed = BigInt(record.claimed);
+    const schedule = this.resolveSchedule(group, record.scheduleOverrides);
+    const vestingTimestamp = this.vestingTimestamp(account_id, record.groupId, schedule, now);
+    const vestedRaw = this.computeVestedAmount(total, schedule, vestingTimestamp);
+    const vested = vestedRaw < claimed ? claimed : vestedRaw;
+    const unvested = total - vested;
+    const revoked: InvestorRecord = {
+      ...record,
+      totalAllocation: vested.toString(),
+      revokedAtNs: now.toString(),
+      revokedAmount: unvested.toString(),
+    };
+    const usage = near.storageUsage();
+    this.investors.set(key, revoked);
+    this.reindexInvestor(account_id, record, revoked);
+    this.trackStorage('investors', usage);
+
+    emitEvent('investor_revoked', {
+      account_id,
+      token_id: token_id ?? this.tokenAccountId,
+      group_id: record.groupId,
+      mode,
+      vested_amount: vested.toString(),
+      unvested_amount: unvested.toString(),
+      timestamp_ns: now.toString(),
+    });
+
+    const owed = vested - claimed;
+    if (mode === 'freeze' || owed === BigInt(0)) {
+      return;
+    }
+    return this.settleClaim(account_id, revoked, owed);
+  }
+
+  @call({ payableFunction: true })
+  withdraw_unallocated({ amount, recipient, memo, token_id }: WithdrawArgs): NearPromise {
+    this.assertRole('treasury');
+    this.assertOneYocto();
+    this.assertRecordsMigrated();
+    this.assertNotPaused(this.pauseKey('withdrawals'));
+    if (!amount) {
+      throw new Error('Amount is required');
+    }
+    const withdrawal = BigInt(amount);
+    if (withdrawal <= BigInt(0)) {
+      throw new Error('Withdrawal amount must be positive');
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    this.assertKnownToken(tokenId);
+    if (withdrawal > this.computeSolvency(tokenId).free) {
+      throw new Error('Amount exceeds unallocated pool balance');
+    }
+
+    if (tokenId === NATIVE_TOKEN_ID) {
+      if (withdrawal > this.nativeLiquidity()) {
+        throw new Error('Amount exceeds NEAR not reserved for storage');
+      }
+    }
+
+    const target = recipient ?? this.owner;
+    this.updateLedger(tokenId, { poolBalance: -withdrawal, totalWithdrawn: withdrawal });
+
+    emitEvent('withdraw_started', {
+      recipient: target,
+      token_id: tokenId,
+      amount,
+      memo: memo ?? 'vesting-withdrawal',
+    });
+    const historyIndex = this.recordTreasury(
+      'withdrawal',
+      tokenId,
+      target,
+      withdrawal,
+      memo ?? 'vesting-withdrawal',
+    );
+
+    const transfer = this.tokenTransfer(
+      tokenId,
+      target,
+      withdrawal,
+      memo ?? 'vesting-withdrawal',
+      GAS_FOR_FT_TRANSFER,
+    );
+    const callback = NearPromise.new(near.currentAccountId()).functionCall(
+      'on_withdraw_complete',
+      JSON.stringify({
+        recipient: target,
+        amount,
+        token_id: tokenId,
+        history_index: historyIndex,
+      }),
+      NO_DEPOSIT,
+      GAS_FOR_RESOLVE,
+    );
+
+    return transfer.then(callback);
+  }
+
+  @call({ payableFunction: true })
+  deposit_near(): void {
+    this.assertRole('treasury');
+    this.assertNotPaused(this.pauseKey('funding'));
+    const deposit = near.attachedDeposit();
+    if (deposit <= BigInt(0)) {
+      throw new Error('Attach the NEAR to deposit');
+    }
+    this.registerToken(NATIVE_TOKEN_ID);
+    this.updateLedger(NATIVE_TOKEN_ID, { poolBalance: deposit, totalDeposited: deposit });
+    emitEvent('deposit', {
+      sender_id: near.predecessorAccountId(),
+      token_id: NATIVE_TOKEN_ID,
+      amount: deposit.toString(),
+      refunded: '0',
+      msg: '',
+    });
+    this.recordTreasury('deposit', NATIVE_TOKEN_ID, near.predecessorAccountId(), deposit, '');
+    this.payIous(this.iouHolders.length);
+  }
+
+  @call({ payableFunction: true })
+  fund_registration_budget(): void {
+    this.assertRole('treasury');
+    const deposit = near.attachedDeposit();
+    if (deposit <= BigInt(0)) {
+      throw new Error('Attach the NEAR to add to the registration budget');
+    }
+    this.registrationBudget = (BigInt(this.registrationBudget) + deposit).toString();
+    emitEvent('registration_budget_funded', {
+      amount: deposit.toString(),
+      budget: this.registrationBudget,
+    });
+  }
+
+  @call({ payableFunction: true })
+  fund_storage_credit(): void {
+    this.assertRole('allocation_manager');
+    const deposit = near.attachedDeposit();
+    if (deposit <= BigInt(0)) {
+      throw new Error('Attach the NEAR to add to the storage credit');
+    }
+    const accountId = near.predecessorAccountId();
+    const credit = BigInt(this.storageCredits.get(accountId) ?? '0') + deposit;
+    this.setStorageCredit(accountId, credit);
+    emitEvent('storage_credit_funded', {
+      account_id: accountId,
+      amount: deposit.toString(),
+      credit: credit.toString(),
+    });
+  }
+
+  // Open to former allocation managers too, so unused credit is never stranded.
+  @call({ payableFunction: true })
+  withdraw_storage_credit({ amount }: { amount?: string }): string {
+    this.assertOneYocto();
+    const accountId = near.predecessorAccountId();
+    const credit = BigInt(this.storageCredits.get(accountId) ?? '0');
+    const withdrawn = amount === undefined ? credit : BigInt(amount);
+    if (withdrawn <= BigInt(0) || withdrawn > credit) {
+      throw new Error('amount must be positive and at most the storage credit');
+    }
+    this.setStorageCredit(accountId, credit - withdrawn);
+    this.refundNear(accountId, withdrawn);
+    emitEvent('storage_credit_withdrawn', {
+      account_id: accountId,
+      amount: withdrawn.toString(),
+      credit: (credit - withdrawn).toString(),
+    });
+    return withdrawn.toString();
+  }
+
+  @call({})
+  ft_on_transfer({ sender_id, amount, msg }: FtOnTransferArgs): string {
+    const tokenId = this.assertTokenCaller();
+    this.assertRecordsMigrated();
+    this.assertNotPaused(this.pauseKey('funding'));
+    if (!amount) {
+      throw new Error('Amount is required');
+    }
+    const deposit = BigInt(amount);
+    if (deposit <= BigInt(0)) {
+      throw new Error('Deposit amount must be positive');
+    }
+
+    const minimum = BigInt(this.minDeposits.get(tokenId) ?? '0');
+    const command =
+      deposit < minimum
+        ? `Deposit is below the minimum of ${minimum}`
+        : this.parseDepositCommand(msg ?? '', tokenId);
+    if (typeof command === 'string') {
+      // Returning the full amount makes the token refund the sender.
+      emitEvent('deposit_refunded', { sender_id, token_id: tokenId, amount, reason: command });
+      return amount;
+    }
+
+    const shortfall = this.computeSolvency(tokenId).shortfall;
+    this.updateLedger(tokenId, { poolBalance: deposit, totalDeposited: deposit });
+
+    let refunded = BigInt(0);
+    if (command.fund_group !== undefined) {
+      this.adjustEarmark(command.fund_group, deposit);
+      emitEvent('group_funded', {
+        group_id: command.fund_group,
+        amount,
+        earmarked: this.earmarkOf(command.fund_group).toString(),
+      });
+    } else if (command.allocate !== undefined) {
+      this.allocateFromDeposit(sender_id, tokenId, command.allocate, deposit);
+    } else if (command.refund_excess === true) {
+      // Keep only what closes the existing shortfall.
+      refunded = deposit > shortfall ? deposit - shortfall : BigInt(0);
+      this.updateLedger(tokenId, { poolBalance: -refunded, totalDeposited: -refunded });
+    }
+
+    emitEvent('deposit', {
+      sender_id,
+      token_id: tokenId,
+      amount: (deposit - refunded).toString(),
+      refunded: refunded.toString(),
+      msg: msg ?? '',
+    });
+    if (deposit > refunded) {
+      this.recordTreasury('deposit', tokenId, sender_id, deposit - refunded, msg ?? '');
+    }
+    // Outstanding IOUs have first call on new funds; pay_ious picks up what gas cannot cover.
+    this.payIous(this.iouHolders.length);
+    return refunded.toString();
+  }
+
+  @call({})
+  pay_ious({ limit }: { limit?: number }): number {
+    this.assertRecordsMigrated();
+    const [, count] = resolvePage(this.iouHolders.length, { limit });
+    return this.payIous(count);
+  }
+
+  // For claims whose callback never ran; the owner checks the transfer's outcome off-chain.
+  @call({})
+  recover_pending_claim({
+    account_id,
+    token_id,
+    outcome,
+  }: {
+    account_id: string;
+    token_id?: string;
+    outcome: PendingClaimOutcome;
+  }): void {
+    this.assertOwner();
+    this.assertOneYocto();
+    if (outcome !== 'settled' && outcome !== 'reverted') {
+      throw new Error('outcome must be either settled or reverted');
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    const record = this.investors.get(investorKey(tokenId, account_id));
+    const pending = record?.pendingClaim;
+    if (!pending) {
+      throw new Error(`No pending claim for ${account_id}`);
+    }
+    const age = BigInt(near.blockTimestamp()) - BigInt(pending.startedAtNs);
+    if (age < PENDING_CLAIM_RECOVERY_NS) {
+      throw new Error('Pending claim is too recent to recover; its callback may still run');
+    }
+    this.releaseClaim(account_id, tokenId, pending.historyIndex);
+    if (outcome === 'reverted') {
+      this.revertClaim(
+        account_id,
+        tokenId,
+        BigInt(pending.amount),
+        BigInt(pending.iouPaid),
+        pending.previousClaimAtNs,
+      );
+    }
+    this.settleClaimEntry(account_id, pending.historyIndex, outcome);
+    emitEvent('pending_claim_recovered', {
+      account_id,
+      token_id: tokenId,
+      amount: pending.amount,
+      outcome,
+    });
+  }
+
+  // JSON has no byte strings, so `code` carries the Wasm as a latin1 string, one char per byte.
+  // Deploy and migrate run in one receipt, so a failing migration also rolls the code back.
+  @call({ payableFunction: true })
+  upgrade({ code }: { code: string }): NearPromise {
+    this.assertOwner();
+    this.assertOneYocto();
+    if (!code || !code.startsWith(WASM_MAGIC)) {
+      throw new Error('code must be a Wasm module');
+    }
+    const wasm = bytes(code);
+    emitEvent('upgrade_started', {
+      code_hash: toHex(near.sha256(wasm)),
+      state_version: this.stateVersion ?? 0,
+    });
+    return NearPromise.new(near.currentAccountId())
+      .deployContract(wasm)
+      .functionCall('migrate', '', NO_DEPOSIT, GAS_FOR_MIGRATE);
+  }
+
+  // Runs against the stored state of any older layout; the SDK hands migrations a blank
+  // contract, so the state is read and restored here. Investor records move in batches.
+  @migration({})
+  migrate(): void {
+    this.assertSelf();
+    const raw = near.storageReadRaw(bytes('STATE'));
+    if (raw === null) {
+      throw new Error('Contract must be initialized');
+    }
+    const stored = deserialize(raw) as Record<string, unknown>;
+    // The original single-token layout has no version field and counts as version 0.
+    const fromVersion = typeof stored.stateVersion === 'number' ? stored.stateVersion : 0;
+    if (fromVersion > STATE_VERSION) {
+      throw new Error(`Cannot migrate state version ${fromVersion} down to ${STATE_VERSION}`);
+    }
+    restoreState(this, stored);
+    if (fromVersion === 0) {
+      // Version 0 kept the pool totals at the top level; commitments are rebuilt per record.
+      this.tokens.set(this.tokenAccountId, {
+        ...emptyLedger(),
+        poolBalance: String(stored.poolBalance ?? '0'),
+        totalDeposited: String(stored.totalDeposited ?? '0'),
+        totalClaimed: String(stored.totalClaimed ?? '0'),
+        totalWithdrawn: String(stored.totalWithdrawn ?? '0'),
+      });
+      // Version 0 groups all vest the default token and could not be revoked.
+      for (const [groupId, config] of this.groups.toArray()) {
+        this.groups.set(groupId, { ...config, tokenId: this.tokenAccountId, revocable: false });
+      }
+      this.pendingRecords = this.investors.length;
+      this.migrationCursor = 0;
+    }
+    this.stateVersion = STATE_VERSION;
+    emitEvent('state_migrated', {
+      from_version: fromVersion,
+      to_version: STATE_VERSION,
+      pending_records: this.pendingRecords,
+    });
+  }
+
+  // Moves version 0 investor records to their per-token keys and rebuilds the group
+  // aggregates, committed totals and member sets from them.
+  @call({ payableFunction: true })
+  migrate_records({ limit }: { limit?: number }): MigrateRecordsResult {
+    this.assertRole('operator');
+    this.assertOneYocto();
+    if (this.pendingRecords <= 0) {
+      throw new Error('No investor record migration in progress');
+    }
+    const [, size] = resolvePage(MAX_PAGE_LIMIT, { limit });
+    const usage = near.storageUsage();
+    let index = this.migrationCursor;
+    let migrated = 0;
+    for (let visited = 0; visited < size && this.pendingRecords > 0; visited++) {
+      if (index >= this.investors.length) {
+        index = 0;
+      }
+      const [key] = this.investors.keys({ start: index, limit: 1 });
+      if (!isLegacyInvestorKey(key)) {
+        index += 1;
+        continue;
+      }
+      // Removal swaps the last key into this slot, so the same index is looked at again.
+      const record = this.investors.get(key)!;
+      this.investors.remove(key);
+      this.investors.set(investorKey(this.tokenOf(record.groupId), key), record);
+      this.reindexInvestor(key, null, record);
+      this.pendingRecords -= 1;
+      migrated += 1;
+    }
+    this.trackStorage('investors', usage);
+    this.migrationCursor = this.pendingRecords > 0 ? index : 0;
+    emitEvent('records_migrated', { migrated, pending_records: this.pendingRecords });
+    return {
+      migrated,
+      pending_records: this.pendingRecords,
+      next_index: this.pendingRecords > 0 ? this.migrationCursor : null,
+    };
+  }
+
+  // Registers an unregistered receiver before the claim transfer. If the deposit cannot be
+  // funded the transfer is still attempted, and its failure rolls the claim back as usual.
+  @call({ privateFunction: true })
+  on_registration_checked({
+    token_id,
+    receiver_id,
+    amount,
+    payer,
+    deposit,
+    memo,
+  }: {
+    token_id: string;
+    receiver_id: string;
+    amount: string;
+    payer: string;
+    deposit: string;
+    memo?: string;
+  }): NearPromise {
+    this.assertSelf();
+    const attached = BigInt(deposit);
+    let registered = true;
+    let required = BigInt(0);
+    try {
+      registered = JSON.parse(near.promiseResult(0)) !== null;
+      required = BigInt(JSON.parse(near.promiseResult(1)).min);
+    } catch (error) {
+      // A token without NEP-145 views gets the plain transfer.
+      registered = true;
+    }
+    const transfer = this.tokenTransfer(
+      token_id,
+      receiver_id,
+      BigInt(amount),
+      memo ?? 'vesting-claim',
+      GAS_FOR_FT_TRANSFER,
+    );
+    const fromBudget = required > attached ? required - attached : BigInt(0);
+    if (registered || fromBudget > BigInt(this.registrationBudget)) {
+      if (!registered) {
+        emitEvent('receiver_registration_unfunded', {
+          token_id,
+          receiver_id,
+          required: required.toString(),
+        });
+      }
+      this.refundNear(payer, attached);
+      return transfer;
+    }
+
+    this.registrationBudget = (BigInt(this.registrationBudget) - fromBudget).toString();
+    this.refundNear(payer, attached - (required - fromBudget));
+    emitEvent('receiver_registered', {
+      token_id,
+      receiver_id,
+      deposit: required.toString(),
+      from_budget: fromBudget.toString(),
+    });
+    return NearPromise.new(token_id)
+      .functionCall(
+        'storage_deposit',
+        JSON.stringify({ account_id: receiver_id, registration_only: true }),
+        required,
+        GAS_FOR_STORAGE_DEPOSIT,
+      )
+      .then(transfer);
+  }
+
+  @call({ privateFunction: true })
+  on_claim_complete({
+    account_id,
+    amount,
+    iou_paid,
+    token_id,
+    history_index,
+    previous_claim_at_ns,
+  }: {
+    account_id: string;
+    amount: string;
+    iou_paid?: string;
+    token_id?: string;
+    history_index?: number;
+    previous_claim_at_ns?: string;
+  }): boolean {
+    this.assertSelf();
+    const tokenId = token_id ?? this.tokenAccountId;
+    if (!this.releaseClaim(account_id, tokenId, history_index)) {
+      return false;
+    }
+    try {
+      near.promiseResult(0);
+    } catch (error) {
+      // Return instead of throwing so the rollback is committed.
+      this.revertClaim(
+        account_id,
+        tokenId,
+        BigInt(amount),
+        BigInt(iou_paid ?? '0'),
+        previous_claim_at_ns,
+      );
+      this.settleClaimEntry(account_id, history_index, 'reverted');
+      return false;
+    }
+    this.settleClaimEntry(account_id, history_index, 'settled');
+    emitEvent('claim_completed', { account_id, token_id: tokenId, amount });
+    return true;
+  }
+
+  @call({ privateFunction: true })
+  on_distribute_complete({ payouts }: { payouts: DistributionPayout[] }): boolean[] {
+    this.assertSelf();
+    return payouts.map((payout, index) => {
+      if (!this.releaseClaim(payout.account_id, payout.token_id, payout.history_index)) {
+        return false;
+      }
+      try {
+        near.promiseResult(index);
+      } catch (error) {
+        const { account_id, token_id, amount, iou_paid, history_index } = payout;
+        this.revertClaim(
+          account_id,
+          token_id,
+          BigInt(amount),
+          BigInt(iou_paid),
+          payout.previous_claim_at_ns,
+        );
+        this.settleClaimEntry(account_id, history_index, 'reverted');
+        return false;
+      }
+      this.settleClaimEntry(payout.account_id, payout.history_index, 'settled');
+      emitEvent('claim_completed', {
+        account_id: payout.account_id,
+        token_id: payout.token_id,
+        amount: payout.amount,
+      });
+      return true;
+    });
+  }
+
+  @call({ privateFunction: true })
+  on_withdraw_complete({
+    recipient,
+    amount,
+    token_id,
+    history_index,
+  }: {
+    recipient: string;
+    amount: string;
+    token_id?: string;
+    history_index?: number;
+  }): boolean {
+    this.assertSelf();
+    const tokenId = token_id ?? this.tokenAccountId;
+    try {
+      near.promiseResult(0);
+    } catch (error) {
+      const tokenAmount = BigInt(amount);
+      this.updateLedger(tokenId, { poolBalance: tokenAmount, totalWithdrawn: -tokenAmount });
+      this.settleTreasuryEntry(history_index, 'reverted');
+      emitEvent('withdraw_reverted', { recipient, token_id: tokenId, amount });
+      return false;
+    }
+    this.settleTreasuryEntry(history_index, 'settled');
+    emitEvent('withdraw_completed', { recipient, token_id: tokenId, amount });
+    return true;
+  }
+
+  @view({})
+  get_state(): {
+    owner: string;
+    pending_owner: string | null;
+    token_account_id: string;
+    tge_timestamp_ns: string;
+    initial_claim_basis_points: string;
+    initial_claim_available_timestamp_ns: string;
+    total_deposited: string;
+    total_claimed: string;
+    total_withdrawn: string;
+    pool_balance: string;
+    total_committed: string;
+    total_iou: string;
+    shortfall_policy: ShortfallPolicy;
+    registration_budget: string;
+    groups: Record<string, GroupConfigStored>;
+    pauses: PauseView[];
+    tokens: TokenView[];
+  } {
+    // Top-level totals describe the default token; `tokens` lists every ledger.
+    const ledger = this.ledger(this.tokenAccountId);
+    return {
+      owner: this.owner,
+      pending_owner: this.pendingOwner === '' ? null : this.pendingOwner,
+      token_account_id: this.tokenAccountId,
+      tge_timestamp_ns: this.tgeTimestampNs,
+      initial_claim_basis_points: this.initialClaimBasisPoints,
+      initial_claim_available_timestamp_ns: this.initialClaimAvailableTimestampNs,
+      total_deposited: ledger.totalDeposited,
+      total_claimed: ledger.totalClaimed,
+      total_withdrawn: ledger.totalWithdrawn,
+      pool_balance: ledger.poolBalance,
+      total_committed: ledger.totalCommitted,
+      total_iou: ledger.totalIou,
+      shortfall_policy: this.shortfallPolicy,
+      registration_budget: this.registrationBudget,
+      groups: this.serializeGroups(),
+      pauses: this.activePauses(),
+      tokens: this.tokenIds().map((tokenId) => this.toTokenView(tokenId)),
+    };
+  }
+
+  @view({})
+  get_role_members({ role, from_index, limit }: { role: Role } & PaginationArgs): string[] {
+    this.assertKnownRole(role);
+    const members = this.roleAccounts(role);
+    const [start, end] = resolvePage(members.length, { from_index, limit });
+    return start < end ? members.elements({ start, limit: end - start }) : [];
+  }
+
+  @view({})
+  get_roles(): Record<Role, string[]> {
+    const snapshot = {} as Record<Role, string[]>;
+    for (const role of ROLES) {
+      snapshot[role] = this.roleAccounts(role).toArray();
+    }
+    return snapshot;
+  }
+
+  @view({})
+  has_role({ role, account_id }: { role: Role; account_id: string }): boolean {
+    this.assertKnownRole(role);
+    return this.hasRole(role, account_id);
+  }
+
+  @view({})
+  get_solvency({ token_id }: { token_id?: string } = {}): SolvencyView {
+    const tokenId = token_id ?? this.tokenAccountId;
+    this.assertKnownToken(tokenId);
+    const solvency = this.computeSolvency(tokenId);
+    return {
+      pool_balance: solvency.poolBalance.toString(),
+      committed: solvency.committed.toString(),
+      earmarked: solvency.earmarked.toString(),
+      free: solvency.free.toString(),
+      shortfall: solvency.shortfall.toString(),
+    };
+  }
+
+  @view({})
+  get_investor({
+    account_id,
+    token_id,
+  }: {
+    account_id: string;
+    token_id?: string;
+  }): InvestorDetails | null {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const record = this.investors.get(investorKey(token_id ?? this.tokenAccountId, account_id));
+    if (!record) {
+      return null;
+    }
+    const group = this.groups.get(record.groupId);
+    return {
+      ...record,
+      schedule: group ? this.resolveSchedule(group, record.scheduleOverrides) : null,
+    };
+  }
+
+  @view({})
+  get_investor_count(): number {
+    return this.investors.length;
+  }
+
+  @view({})
+  get_investors(args: PaginationArgs = {}): InvestorView[] {
+    const [start, end] = resolvePage(this.investors.length, args);
+    const keys = start < end ? this.investors.keys({ start, limit: end - start }) : [];
+    return keys.map((key) => {
+      const [tokenId, accountId] = splitInvestorKey(key);
+      return this.toInvestorView(accountId, tokenId, this.investors.get(key)!);
+    });
+  }
+
+  @view({})
+  get_investor_allocations({ account_id }: { account_id: string }): InvestorView[] {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const allocations: InvestorView[] = [];
+    for (const tokenId of this.tokenIds()) {
+      const record = this.investors.get(investorKey(tokenId, account_id));
+      if (record) {
+        allocations.push(this.toInvestorView(account_id, tokenId, record));
+      }
+    }
+    return allocations;
+  }
+
+  @view({})
+  get_investors_by_group({
+    group_id,
+    from_index,
+    limit,
+  }: { group_id: string } & PaginationArgs): InvestorView[] {
+    if (!group_id) {
+      throw new Error('group_id is required');
+    }
+    const tokenId = this.tokenOf(group_id);
+    const members = this.groupInvestors(group_id);
+    const [start, end] = resolvePage(members.length, { from_index, limit });
+    const accountIds = start < end ? members.elements({ start, limit: end - start }) : [];
+    return accountIds.map((accountId) =>
+      this.toInvestorView(
+        accountId,
+        tokenId,
+        this.investors.get(investorKey(tokenId, accountId))!,
+      ),
+    );
+  }
+
+  @view({})
+  get_groups(args: PaginationArgs = {}): GroupView[] {
+    const [start, end] = resolvePage(this.groups.length, args);
+    const groupIds = start < end ? this.groups.keys({ start, limit: end - start }) : [];
+    return groupIds.map((groupId) => this.toGroupView(groupId));
+  }
+
+  @view({})
+  get_group_stats({ group_id }: { group_id: string }): GroupView {
+    if (!group_id) {
+      throw new Error('group_id is required');
+    }
+    return this.toGroupView(group_id);
+  }
+
+  @view({})
+  get_group_history({
+    group_id,
+    from_index,
+    limit,
+  }: { group_id: string } & PaginationArgs): GroupHistoryEntry[] {
+    if (!group_id) {
+      throw new Error('group_id is required');
+    }
+    const history = this.groupHistory(group_id);
+    const [start, end] = resolvePage(history.length, { from_index, limit });
+    const entries: GroupHistoryEntry[] = [];
+    for (let index = start; index < end; index++) {
+      entries.push(history.get(index)!);
+    }
+    return entries;
+  }
+
+  @view({})
+  get_claim_history({
+    account_id,
+    from_index,
+    limit,
+  }: { account_id: string } & PaginationArgs): ClaimHistoryEntry[] {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const history = this.claimHistory(account_id);
+    const [start, end] = resolvePage(history.length, { from_index, limit });
+    const entries: ClaimHistoryEntry[] = [];
+    for (let index = start; index < end; index++) {
+      entries.push(history.get(index)!);
+    }
+    return entries;
+  }
+
+  @view({})
+  get_treasury_history(args: PaginationArgs = {}): TreasuryHistoryEntry[] {
+    const [start, end] = resolvePage(this.treasuryHistory.length, args);
+    const entries: TreasuryHistoryEntry[] = [];
+    for (let index = start; index < end; index++) {
+      entries.push(this.treasuryHistory.get(index)!);
+    }
+    return entries;
+  }
+
+  @view({})
+  get_merkle_roots(args: PaginationArgs = {}): MerkleRootView[] {
+    const [start, end] = resolvePage(this.merkleRoots.length, args);
+    const roots = start < end ? this.merkleRoots.keys({ start, limit: end - start }) : [];
+    return roots.map((root) => {
+      const record = this.merkleRoots.get(root)!;
+      return {
+        root,
+        group_id: record.groupId,
+        added_at_ns: record.addedAtNs,
+        revoked_at_ns: record.revokedAtNs,
+      };
+    });
+  }
+
+  @view({})
+  verify_merkle_proof({
+    account_id,
+    root,
+    group_id,
+    amount,
+    proof,
+  }: { account_id: string } & MerkleAllocationInput): MerkleProofCheck {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const record = this.merkleRoots.get(root);
+    const leaf = merkleLeaf(account_id, group_id, amount);
+    return {
+      valid:
+        record !== null &&
+        record.groupId === group_id &&
+        merkleRootFromProof(leaf, proof ?? []) === root,
+      root_active: record !== null && record.revokedAtNs === null,
+      materialized: this.materializedLeaves.contains(materializedLeafKey(root, leaf)),
+    };
+  }
+
+  @view({})
+  get_migration_status(): MigrationStatus {
+    return {
+      state_version: this.stateVersion ?? 0,
+      pending_records: this.pendingRecords ?? 0,
+      next_index: this.pendingRecords ? this.migrationCursor : null,
+    };
+  }
+
+  @view({})
+  get_storage_credit({ account_id }: { account_id: string }): string {
+    return this.storageCredits.get(account_id) ?? '0';
+  }
+
+  @view({})
+  get_storage_report(): StorageReport {
+    const total = near.storageUsage();
+    let tracked = BigInt(0);
+    const recordTypes = STORAGE_RECORD_TYPES.map((recordType) => {
+      const bytes = BigInt(this.storageBytes.get(recordType) ?? '0');
+      tracked += bytes;
+      return {
+        record_type: recordType,
+        count: this.storageRecordCount(recordType),
+        bytes: bytes.toString(),
+      };
+    });
+    return {
+      total_bytes: total.toString(),
+      storage_price_per_byte: STORAGE_PRICE_PER_BYTE.toString(),
+      locked_balance: (total * STORAGE_PRICE_PER_BYTE).toString(),
+      record_types: recordTypes,
+      other_bytes: (total > tracked ? total - tracked : BigInt(0)).toString(),
+    };
+  }
+
+  @view({})
+  validate_investors({
+    investors,
+    mode,
+    strict,
+    from_index,
+    limit,
+  }: {
+    investors: InvestorInput[];
+    mode?: UpsertMode;
+    strict?: boolean;
+  } & PaginationArgs): InvestorValidation {
+    if (!Array.isArray(investors) || investors.length === 0) {
+      throw new Error('investors array required');
+    }
+    const page = this.resolveUpsertMode(mode, { from_index, limit });
+    const seenKeys = new Set<string>();
+    const groupIds = new Set<string>();
+    const deltas = new Map<string, bigint>();
+    const addDelta = (tokenId: string, delta: bigint): void => {
+      deltas.set(tokenId, (deltas.get(tokenId) ?? BigInt(0)) + delta);
+    };
+
+    const rows: InvestorRowResult[] = investors.map((entry, index) => {
+      const row: InvestorRowResult = {
+        index,
+        account_id: entry.account_id,
+        group_id: entry.group_id,
+        status: 'error',
+        previous_allocation: '0',
+        total_allocation: '0',
+        error: null,
+      };
+      try {
+        const { amount, overrides, current, tokenId } = this.planInvestorRow(
+          entry,
+          mode,
+          seenKeys,
+        );
+        const previous = current ? BigInt(current.totalAllocation) : BigInt(0);
+        const unchanged =
+          current !== null &&
+          previous === amount &&
+          current.groupId === entry.group_id &&
+          (overrides === undefined ||
+            JSON.stringify(overrides ?? {}) === JSON.stringify(current.scheduleOverrides ?? {}));
+        groupIds.add(entry.group_id);
+        addDelta(tokenId, amount - previous);
+        row.status = !current ? 'new' : unchanged ? 'unchanged' : 'updated';
+        row.previous_allocation = previous.toString();
+        row.total_allocation = amount.toString();
+      } catch (error) {
+        row.error = (error as Error).message;
+      }
+      return row;
+    });
+
+    let nextIndex: number | null = null;
+    if (mode === 'replace') {
+      const { missing, nextIndex: next } = this.replacePage(groupIds, seenKeys, page);
+      for (const [groupId, accountId, , record] of missing) {
+        const row: InvestorRowResult = {
+          index: null,
+          account_id: accountId,
+          group_id: groupId,
+          status: 'removed',
+          previous_allocation: record.totalAllocation,
+          total_allocation: '0',
+          error: null,
+        };
+        try {
+          this.assertRemovable(accountId, record);
+          addDelta(this.tokenOf(groupId), -BigInt(record.totalAllocation));
+        } catch (error) {
+          row.status = 'error';
+          row.error = (error as Error).message;
+        }
+        rows.push(row);
+      }
+      nextIndex = next;
+    }
+
+    const tokens = [...deltas].map(([tokenId, delta]): AllocationImpact => {
+      const solvency = this.computeSolvency(tokenId);
+      const committedAfter = solvency.committed + delta;
+      const pool = solvency.poolBalance;
+      const shortfallAfter = committedAfter > pool ? committedAfter - pool : BigInt(0);
+      return {
+        token_id: tokenId,
+        allocation_delta: delta.toString(),
+        committed_before: solvency.committed.toString(),
+        committed_after: committedAfter.toString(),
+        pool_balance: pool.toString(),
+        shortfall_before: solvency.shortfall.toString(),
+        shortfall_after: shortfallAfter.toString(),
+      };
+    });
+    return {
+      valid:
+        rows.every((row) => row.status !== 'error') &&
+        (strict !== true || tokens.every((token) => token.shortfall_after === '0')),
+      rows,
+      tokens,
+      next_index: nextIndex,
+    };
+  }
+
+  @view({})
+  get_claimable({ account_id, token_id }: { account_id: string; token_id?: string }): string {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    return this.allowedClaimable(
+      account_id,
+      token_id ?? this.tokenAccountId,
+      BigInt(near.blockTimestamp()),
+    ).toString();
+  }
+
+  @view({})
+  get_claim_availability({
+    account_id,
+    token_id,
+  }: {
+    account_id: string;
+    token_id?: string;
+  }): ClaimAvailability {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    const timestamp = BigInt(near.blockTimestamp());
+    const record = this.investors.get(investorKey(tokenId, account_id));
+    const claimable = this.computeClaimable(account_id, tokenId, timestamp);
+    const gate =
+      record && claimable > BigInt(0)
+        ? this.claimGate(account_id, record, claimable, timestamp)
+        : null;
+    return {
+      claimable: claimable.toString(),
+      allowed: claimable > BigInt(0) && gate === null,
+      reason: gate ? gate.reason : null,
+      next_claim_at_ns: gate && gate.nextClaimAtNs !== null ? gate.nextClaimAtNs.toString() : null,
+    };
+  }
+
+  @view({})
+  get_investor_status({
+    account_ids,
+    token_id,
+  }: {
+    account_ids: string[];
+    token_id?: string;
+  }): (InvestorStatus | null)[] {
+    if (!Array.isArray(account_ids) || account_ids.length === 0) {
+      throw new Error('account_ids array required');
+    }
+    if (account_ids.length > MAX_PAGE_LIMIT) {
+      throw new Error(`At most ${MAX_PAGE_LIMIT} accounts can be queried per call`);
+    }
+    const tokenId = token_id ?? this.tokenAccountId;
+    const now = BigInt(near.blockTimestamp());
+    return account_ids.map((accountId) => {
+      const record = this.investors.get(investorKey(tokenId, accountId));
+      return record ? this.toInvestorStatus(accountId, tokenId, record, now) : null;
+    });
+  }
+
+  @view({})
+  get_vested_at({
+    account_id,
+    timestamp_ns,
+    token_id,
+  }: {
+    account_id: string;
+    timestamp_ns: string;
+    token_id?: string;
+  }): string {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const record = this.investors.get(investorKey(token_id ?? this.tokenAccountId, account_id));
+    return record ? this.vestedAt(account_id, record, BigInt(timestamp_ns)).toString() : '0';
+  }
+
+  @view({})
+  get_unlock_schedule({
+    account_id,
+    token_id,
+    ...range
+  }: { account_id: string; token_id?: string } & ProjectionArgs): UnlockPoint[] {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const record = this.investors.get(investorKey(token_id ?? this.tokenAccountId, account_id));
+    const curve = record ? this.vestingCurve(account_id, record) : null;
+    let previous: bigint | null = null;
+    return projectionTimestamps(range).map((timestamp) => {
+      const vested = curve ? this.vestedOnCurve(curve, timestamp) : BigInt(0);
+      const unlocked = previous === null ? BigInt(0) : vested - previous;
+      previous = vested;
+      return {
+        timestamp_ns: timestamp.toString(),
+        vested: vested.toString(),
+        unlocked: unlocked.toString(),
+      };
+    });
+  }
+
+  @view({})
+  get_next_unlock({
+    account_id,
+    token_id,
+  }: {
+    account_id: string;
+    token_id?: string;
+  }): NextUnlock | null {
+    if (!account_id) {
+      throw new Error('account_id is required');
+    }
+    const record = this.investors.get(investorKey(token_id ?? this.tokenAccountId, account_id));
+    const curve = record ? this.vestingCurve(account_id, record) : null;
+    if (!record || !curve || record.revokedAtNs !== undefined) {
+      return null;
+    }
+    const now = BigInt(near.blockTimestamp());
+    const vestedNow = this.vestedOnCurve(curve, now);
+    // Schedule boundaries are in vesting time; pauses excluded so far push them back.
+    const shift = now - this.vestingTimestamp(account_id, record.groupId, curve.schedule, now);
+    for (const boundary of scheduleBoundaries(curve.schedule)) {
+      const timestamp = boundary + shift;
+      if (timestamp <= now) {
+        continue;
+      }
+      const vested = this.vestedOnCurve(curve, timestamp);
+      if (vested > vestedNow) {
+        return {
+          timestamp_ns: timestamp.toString(),
+          amount: (vested - vestedNow).toString(),
+          linear: this.vestedOnCurve(curve, timestamp - BigInt(1)) > vestedNow,
+        };
+      }
+    }
+    return null;
+  }
+
+  @view({})
+  get_group_unlock_projection({
+    group_id,
+    from_index,
+    limit,
+    ...range
+  }: { group_id: string } & ProjectionArgs & PaginationArgs): GroupProjection {
+    if (!group_id) {
+      throw new Error('group_id is required');
+    }
+    const tokenId = this.tokenOf(group_id);
+    const timestamps = projectionTimestamps(range);
+    const unlocked = timestamps.slice(1).map(() => BigInt(0));
+    const members = this.groupInvestors(group_id);
+    // Fewer members per page for longer projections, so a page stays within view gas.
+    const pageLimit = Math.max(1, Math.floor(MAX_PROJECTION_CELLS / timestamps.length));
+    const [start, requestedEnd] = resolvePage(members.length, { from_index, limit });
+    const end = Math.min(requestedEnd, start + pageLimit);
+    const accountIds = start < end ? members.elements({ start, limit: end - start }) : [];
+    for (const accountId of accountIds) {
+      const record = this.investors.get(investorKey(tokenId, accountId))!;
+      const curve = this.vestingCurve(accountId, record);
+      if (!curve) {
+        continue;
+      }
+      let previous = this.vestedOnCurve(curve, timestamps[0]);
+      for (let index = 1; index < timestamps.length; index++) {
+        const vested = this.vestedOnCurve(curve, timestamps[index]);
+        unlocked[index - 1] += vested - previous;
+        previous = vested;
+      }
+    }
+    return {
+      group_id,
+      token_id: tokenId,
+      periods: unlocked.map((amount, index) => ({
+        start_ns: timestamps[index].toString(),
+        end_ns: timestamps[index + 1].toString(),
+        unlocked: amount.toString(),
+      })),
+      next_index: end < members.length ? end : null,
+    };
+  }
+
+  // A leaf for an account that already vests in the same group tops that record up. Returns the
+  // bytes added, which the claim's caller pays for.
+  private materializeMerkleAllocation(
+    accountId: string,
+    allocation: MerkleAllocationInput,
+  ): bigint {
+    const { root, group_id, amount, proof } = allocation;
+    const rootRecord = this.merkleRoots.get(root);
+    if (!rootRecord) {
+      throw new Error('Unknown merkle root');
+    }
+    if (rootRecord.revokedAtNs !== null) {
+      throw new Error('Merkle root has been revoked');
+    }
+    if (rootRecord.groupId !== group_id) {
+      throw new Error(`Merkle root does not belong to group ${group_id}`);
+    }
+    if (!this.groups.get(group_id)) {
+      throw new Error(`Unknown group_id ${group_id}`);
+    }
+    const total = BigInt(amount);
+    if (total <= BigInt(0)) {
+      throw new Error('Investor amount must be positive');
+    }
+    const leaf = merkleLeaf(accountId, group_id, amount);
+    const leafKey = materializedLeafKey(root, leaf);
+    if (this.materializedLeaves.contains(leafKey)) {
+      throw new Error('Merkle allocation already materialized');
+    }
+    if (!Array.isArray(proof) || merkleRootFromProof(leaf, proof) !== root) {
+      throw new Error('Invalid merkle proof');
+    }
+
+    const key = investorKey(this.tokenOf(group_id), accountId);
+    const existing = this.investors.get(key);
+    if (existing) {
+      if (existing.groupId !== group_id) {
+        throw new Error(`${accountId} already vests this token in group ${existing.groupId}`);
+      }
+      if (existing.revokedAtNs !== undefined) {
+        throw new Error(`Investor ${accountId} has been revoked`);
+      }
+      this.assertNoPendingClaim(accountId, existing);
+    }
+    const record: InvestorRecord = existing
+      ? { ...existing, totalAllocation: (BigInt(existing.totalAllocation) + total).toString() }
+      : { groupId: group_id, totalAllocation: total.toString(), claimed: '0' };
+    const usage = near.storageUsage();
+    this.investors.set(key, record);
+    this.reindexInvestor(accountId, existing, record);
+    const bytes = near.storageUsage() - usage;
+    if (!existing) {
+      this.storageDeposits.set(key, {
+        payer: near.predecessorAccountId(),
+        bytes: bytes.toString(),
+      });
+    }
+    this.trackStorage('investors', usage);
+    this.materializedLeaves.set(leafKey);
+    emitEvent('merkle_allocation_materialized', {
+      account_id: accountId,
+      group_id,
+      amount: total.toString(),
+      root,
+    });
+    return bytes > BigInt(0) ? bytes : BigInt(0);
+  }
+
+  private computeSolvency(tokenId: string): Solvency {
+    const ledger = this.ledger(tokenId);
+    const poolBalance = BigInt(ledger.poolBalance);
+    const committed = BigInt(ledger.totalCommitted) + BigInt(ledger.totalIou);
+    // Earmarks beyond what their group still owes stay reserved for that group.
+    let reserved = committed;
+    for (const [groupId, amount] of this.groupFunds.toArray()) {
+      if (this.tokenOf(groupId) !== tokenId) {
+        continue;
+      }
+      const stats = this.groupStats.get(groupId);
+      const owed = stats ? BigInt(stats.totalAllocation) - BigInt(stats.totalClaimed) : BigInt(0);
+      reserved += BigInt(amount) > owed ? BigInt(amount) - owed : BigInt(0);
+    }
+    return {
+      poolBalance,
+      committed,
+      earmarked: BigInt(ledger.totalEarmarked),
+      free: poolBalance > reserved ? poolBalance - reserved : BigInt(0),
+      shortfall: committed > poolBalance ? committed - poolBalance : BigInt(0),
+    };
+  }
+
+  private settleClaim(
+    accountId: string,
+    record: InvestorRecord,
+    requested: bigint,
+  ): NearPromise | void {
+    const claim = this.applyClaim(accountId, record, requested);
+    if (!claim) {
+      throw new Error('Insufficient available pool balance; try again later');
+    }
+    const [amount, iouPaid] = claim;
+    if (amount === BigInt(0)) {
+      return;
+    }
+    return this.startClaimTransfer(accountId, record, amount, iouPaid);
+  }
+
+  // Books a claim against the pool and returns [amount to transfer, part of it settling an IOU],
+  // or null when the shortfall policy rejects it.
+  private applyClaim(
+    accountId: string,
+    record: InvestorRecord,
+    requested: bigint,
+    nativeOutflow = BigInt(0),
+  ): [bigint, bigint] | null {
+    const tokenId = this.tokenOf(record.groupId);
+    const iou = BigInt(record.iou ?? '0');
+    const spendable = this.spendableFor(record.groupId, nativeOutflow);
+    // Other investors' IOUs are already owed, so their share of the pool is off limits.
+    const reserved = BigInt(this.ledger(tokenId).totalIou) - iou;
+    const available = spendable > reserved ? spendable - reserved : BigInt(0);
+    const iouPaid = iou < available ? iou : available;
+    const remaining = available - iouPaid;
+
+    let paid = requested;
+    if (requested > remaining) {
+      if (this.shortfallPolicy === 'reject') {
+        return null;
+      }
+      paid = remaining;
+      if (this.shortfallPolicy === 'pro_rata') {
+        const share = this.proRataShare(tokenId, requested);
+        paid = share < remaining ? share : remaining;
+      }
+    }
+    const iouCreated = requested - paid;
+    const transferAmount = iouPaid + paid;
+    if (transferAmount === BigInt(0) && iouCreated === BigInt(0)) {
+      return null;
+    }
+
+    this.investors.set(investorKey(tokenId, accountId), {
+      ...record,
+      claimed: (BigInt(record.claimed) + requested).toString(),
+      lastClaimAtNs: near.blockTimestamp().toString(),
+    });
+    this.adjustGroupStats(record.groupId, 0, BigInt(0), requested);
+    this.updateLedger(tokenId, { totalClaimed: requested });
+    this.adjustIou(accountId, tokenId, iouCreated - iouPaid);
+    this.spendPool(record.groupId, transferAmount);
+    if (iouCreated > BigInt(0)) {
+      emitEvent('iou_recorded', {
+        account_id: accountId,
+        token_id: tokenId,
+        amount: iouCreated.toString(),
+        outstanding: (iou - iouPaid + iouCreated).toString(),
+      });
+    }
+    return [transferAmount, iouPaid];
+  }
+
+  // `previousClaimAtNs` undoes the claim's effect on the claim policy's cooldown.
+  private revertClaim(
+    accountId: string,
+    tokenId: string,
+    amount: bigint,
+    iouPaid: bigint,
+    previousClaimAtNs: string | undefined,
+  ): void {
+    const key = investorKey(tokenId, accountId);
+    const record = this.investors.get(key);
+    if (!record) {
+      // Throwing would also undo the other payouts of a distribution, so only the returned
+      // tokens are put back in the pool.
+      this.updateLedger(tokenId, { poolBalance: amount });
+      emitEvent('claim_revert_skipped', {
+        account_id: accountId,
+        token_id: tokenId,
+        amount: amount.toString(),
+      });
+      return;
+    }
+    // The IOU share was already claimed earlier, so it goes back to the IOU rather than vesting.
+    const claimedAmount = amount - iouPaid;
+    this.investors.set(key, {
+      ...record,
+      claimed: (BigInt(record.claimed) - claimedAmount).toString(),
+      lastClaimAtNs: previousClaimAtNs,
+    });
+    this.adjustGroupStats(record.groupId, 0, BigInt(0), -claimedAmount);
+    this.updateLedger(tokenId, { totalClaimed: -claimedAmount, poolBalance: amount });
+    this.adjustIou(accountId, tokenId, iouPaid);
+    emitEvent('claim_reverted', {
+      account_id: accountId,
+      token_id: tokenId,
+      amount: amount.toString(),
+    });
+  }
+
+  private lockClaim(
+    accountId: string,
+    tokenId: string,
+    amount: bigint,
+    iouPaid: bigint,
+    historyIndex: number,
+    previousClaimAtNs: string | undefined,
+  ): void {
+    const key = investorKey(tokenId, accountId);
+    this.investors.set(key, {
+      ...this.investors.get(key)!,
+      pendingClaim: {
+        amount: amount.toString(),
+        iouPaid: iouPaid.toString(),
+        startedAtNs: near.blockTimestamp().toString(),
+        historyIndex,
+        previousClaimAtNs,
+      },
+    });
+  }
+
+  // False when the owner already resolved the claim through recover_pending_claim.
+  private releaseClaim(accountId: string, tokenId: string, historyIndex?: number): boolean {
+    const key = investorKey(tokenId, accountId);
+    const record = this.investors.get(key);
+    if (!record || record.pendingClaim === undefined) {
+      // Transfers started before claims were locked carry no history index.
+      return historyIndex === undefined;
+    }
+    if (record.pendingClaim.historyIndex !== historyIndex) {
+      return false;
+    }
+    this.investors.set(key, { ...record, pendingClaim: undefined });
+    return true;
+  }
+
+  private assertNoPendingClaim(accountId: string, record: InvestorRecord): void {
+    if (record.pendingClaim !== undefined) {
+      throw new Error(`A claim for ${accountId} is still in flight`);
+    }
+  }
+
+  // Pays each claim the same fraction of its request that the pool covers of all liabilities.
+  private proRataShare(tokenId: string, requested: bigint): bigint {
+    const ledger = this.ledger(tokenId);
+    const pool = BigInt(ledger.poolBalance);
+    const liabilities = BigInt(ledger.totalCommitted) + BigInt(ledger.totalIou);
+    if (liabilities <= pool) {
+      return requested;
+    }
+    return (requested * pool) / liabilities;
+  }
+
+  private earmarkOf(groupId: string): bigint {
+    return BigInt(this.groupFunds.get(groupId) ?? '0');
+  }
+
+  private adjustEarmark(groupId: string, delta: bigint): void {
+    const earmarked = this.earmarkOf(groupId) + delta;
+    if (earmarked > BigInt(0)) {
+      this.groupFunds.set(groupId, earmarked.toString());
+    } else {
+      this.groupFunds.remove(groupId);
+    }
+    this.updateLedger(this.tokenOf(groupId), { totalEarmarked: delta });
+  }
+
+  // Moves a removed group's earmark to its successor, or back to the shared pool.
+  // Must run while the group still exists, since its token decides which ledger is touched.
+  private releaseEarmark(groupId: string, targetGroupId?: string): void {
+    const earmarked = this.earmarkOf(groupId);
+    if (earmarked === BigInt(0)) {
+      return;
+    }
+    this.adjustEarmark(groupId, -earmarked);
+    if (targetGroupId !== undefined && this.tokenOf(targetGroupId) === this.tokenOf(groupId)) {
+      this.adjustEarmark(targetGroupId, earmarked);
+    }
+  }
+
+  // Funds earmarked for other groups are off limits to this group's payouts.
+  private spendableFor(groupId: string, nativeOutflow = BigInt(0)): bigint {
+    const tokenId = this.tokenOf(groupId);
+    const ledger = this.ledger(tokenId);
+    const pool = BigInt(ledger.poolBalance);
+    const reserved = BigInt(ledger.totalEarmarked) - this.earmarkOf(groupId);
+    const spendable = pool > reserved ? pool - reserved : BigInt(0);
+    if (tokenId !== NATIVE_TOKEN_ID) {
+      return spendable;
+    }
+    const liquid = this.nativeLiquidity(nativeOutflow);
+    return spendable < liquid ? spendable : liquid;
+  }
+
+  // NEAR the account can pay out without dipping into what storage staking locks. `outflow` is
+  // NEAR booked earlier in this call whose transfer promise is not built yet; building one
+  // takes its amount off the account balance.
+  private nativeLiquidity(outflow = BigInt(0)): bigint {
+    const locked =
+      near.storageUsage() * STORAGE_PRICE_PER_BYTE +
+      NATIVE_STORAGE_HEADROOM +
+      BigInt(this.registrationBudget);
+    const balance = near.accountBalance() - outflow;
+    return balance > locked ? balance - locked : BigInt(0);
+  }
+
+  private spendPool(groupId: string, amount: bigint): void {
+    const earmarked = this.earmarkOf(groupId);
+    this.adjustEarmark(groupId, -(earmarked < amount ? earmarked : amount));
+    const tokenId = this.tokenOf(groupId);
+    this.updateLedger(tokenId, { poolBalance: -amount });
+  }
+
+  // IOU holders are tracked by investor key, since one account can be owed several tokens.
+  private adjustIou(accountId: string, tokenId: string, delta: bigint): void {
+    if (delta === BigInt(0)) {
+      return;
+    }
+    const key = investorKey(tokenId, accountId);
+    const record = this.investors.get(key);
+    if (!record) {
+      throw new Error('Investor record missing while updating IOU');
+    }
+    const outstanding = BigInt(record.iou ?? '0') + delta;
+    this.investors.set(key, {
+      ...record,
+      iou: outstanding > BigInt(0) ? outstanding.toString() : undefined,
+    });
+    if (outstanding > BigInt(0)) {
+      this.iouHolders.set(key);
+    } else {
+      this.iouHolders.remove(key);
+    }
+    this.updateLedger(tokenId, { totalIou: delta });
+  }
+
+  private payIous(limit: number): number {
+    const holders = this.iouHolders.elements({
+      start: 0,
+      limit: Math.min(limit, this.iouHolders.length),
+    });
+    let paid = 0;
+    for (const key of holders) {
+      const gasLeft = near.prepaidGas() - near.usedGas();
+      if (gasLeft < GAS_FOR_IOU_PAYOUT + GAS_FOR_BOOKKEEPING) {
+        break;
+      }
+      const [tokenId, accountId] = splitInvestorKey(key);
+      const record = this.investors.get(key);
+      const owed = BigInt(record?.iou ?? '0');
+      if (
+        !record ||
+        owed <= BigInt(0) ||
+        record.pendingClaim !== undefined ||
+        this.claimsPaused(accountId, record.groupId)
+      ) {
+        continue;
+      }
+      const spendable = this.spendableFor(record.groupId);
+      const amount = owed < spendable ? owed : spendable;
+      if (amount <= BigInt(0)) {
+        continue;
+      }
+      this.adjustIou(accountId, tokenId, -amount);
+      this.spendPool(record.groupId, amount);
+      // Building the transfer now already takes a NEAR payout off the account balance.
+      this.startClaimTransfer(accountId, record, amount, amount).build();
+      paid += 1;
+    }
+    return paid;
+  }
+
+  // With a registration deposit the receiver's token registration is checked first. `record` is
+  // the state before the payout was booked.
+  private startClaimTransfer(
+    accountId: string,
+    record: InvestorRecord,
+    amount: bigint,
+    iouPaid: bigint,
+    registrationDeposit?: bigint,
+    memo = 'vesting-claim',
+  ): NearPromise {
+    const tokenId = this.tokenOf(record.groupId);
+    const receiverId = record.receiverId ?? accountId;
+    emitEvent('claim_started', {
+      account_id: accountId,
+      token_id: tokenId,
+      receiver_id: receiverId,
+      amount: amount.toString(),
+      iou_paid: iouPaid.toString(),
+      initiator: near.predecessorAccountId(),
+    });
+    const historyIndex = this.recordClaim(accountId, tokenId, receiverId, amount, iouPaid, memo);
+    this.lockClaim(accountId, tokenId, amount, iouPaid, historyIndex, record.lastClaimAtNs);
+
+    const transfer =
+      registrationDeposit === undefined
+        ? this.tokenTransfer(tokenId, receiverId, amount, memo, GAS_FOR_FT_TRANSFER)
+        : this.registeredTransfer(tokenId, receiverId, amount, registrationDeposit, memo);
+    const callback = NearPromise.new(near.currentAccountId()).functionCall(
+      'on_claim_complete',
+      JSON.stringify({
+        account_id: accountId,
+        amount: amount.toString(),
+        iou_paid: iouPaid.toString(),
+        token_id: tokenId,
+        history_index: historyIndex,
+        previous_claim_at_ns: record.lastClaimAtNs,
+      }),
+      NO_DEPOSIT,
+      GAS_FOR_RESOLVE,
+    );
+
+    return transfer.then(callback);
+  }
+
+  // Joins every transfer into one batch so a single callback can roll back each failed payout.
+  private startDistribution(payouts: DistributionPayout[]): NearPromise {
+    const transfers = payouts.map((payout) => {
+      emitEvent('claim_started', {
+        account_id: payout.account_id,
+        token_id: payout.token_id,
+        receiver_id: payout.receiver_id,
+        amount: payout.amount,
+        iou_paid: payout.iou_paid,
+        initiator: near.predecessorAccountId(),
+      });
+      const amount = BigInt(payout.amount);
+      payout.history_index = this.recordClaim(
+        payout.account_id,
+        payout.token_id,
+        payout.receiver_id,
+        amount,
+        BigInt(payout.iou_paid),
+        'vesting-claim',
+      );
+      this.lockClaim(
+        payout.account_id,
+        payout.token_id,
+        amount,
+        BigInt(payout.iou_paid),
+        payout.history_index,
+        payout.previous_claim_at_ns,
+      );
+      return this.tokenTransfer(
+        payout.token_id,
+        payout.receiver_id,
+        amount,
+        'vesting-claim',
+        GAS_FOR_BATCH_FT_TRANSFER,
+      );
+    });
+    const batch = transfers.slice(1).reduce((joined, next) => joined.and(next), transfers[0]);
+
+    const callback = NearPromise.new(near.currentAccountId()).functionCall(
+      'on_distribute_complete',
+      JSON.stringify({ payouts }),
+      NO_DEPOSIT,
+      GAS_FOR_RESOLVE + BigInt(payouts.length) * GAS_FOR_RESOLVE_PER_PAYOUT,
+    );
+    return batch.then(callback);
+  }
+
+  private registeredTransfer(
+    tokenId: string,
+    receiverId: string,
+    amount: bigint,
+    deposit: bigint,
+    memo: string,
+  ): NearPromise {
+    const lookup = NearPromise.new(tokenId)
+      .functionCall(
+        'storage_balance_of',
+        JSON.stringify({ account_id: receiverId }),
+        NO_DEPOSIT,
+        GAS_FOR_STORAGE_VIEW,
+      )
+      .and(
+        NearPromise.new(tokenId).functionCall(
+          'storage_balance_bounds',
+          '{}',
+          NO_DEPOSIT,
+          GAS_FOR_STORAGE_VIEW,
+        ),
+      );
+    return lookup.then(
+      NearPromise.new(near.currentAccountId()).functionCall(
+        'on_registration_checked',
+        JSON.stringify({
+          token_id: tokenId,
+          receiver_id: receiverId,
+          amount: amount.toString(),
+          payer: near.predecessorAccountId(),
+          deposit: deposit.toString(),
+          memo,
+        }),
+        NO_DEPOSIT,
+        GAS_FOR_REGISTRATION,
+      ),
+    );
+  }
+
+  // Native NEAR moves with a plain transfer; its failure reaches the callback like a failed
+  // ft_transfer.
+  private tokenTransfer(
+    tokenId: string,
+    receiverId: string,
+    amount: bigint,
+    memo: string,
+    gas: bigint,
+  ): NearPromise {
+    if (tokenId === NATIVE_TOKEN_ID) {
+      return NearPromise.new(receiverId).transfer(amount);
+    }
+    return NearPromise.new(tokenId).functionCall(
+      'ft_transfer',
+      JSON.stringify({
+        receiver_id: receiverId,
+        amount: amount.toString(),
+        memo,
+      }),
+      ONE_YOCTO,
+      gas,
+    );
   }
 
-  @call({})
-  upsert_investors({ investors }: { investors: InvestorInput[] }): void {
-    this.assertOwner();
-    if (!Array.isArray(investors) || investors.length === 0) {
-      throw new Error('investors array required');
+  private computeClaimable(accountId: string, tokenId: string, timestamp: bigint): bigint {
+    const record = this.investors.get(investorKey(tokenId, accountId));
+    if (!record) {
+      return BigInt(0);
+    }
+    const claimed = BigInt(record.claimed);
+    if (BigInt(record.totalAllocation) === claimed) {
+      return BigInt(0);
+    }
+    const vestable = this.vestedAt(accountId, record, timestamp);
+    if (vestable <= claimed) {
+      return BigInt(0);
+    }
+    return vestable - claimed;
+  }
+
+  // What `claim` would pay right now: nothing while the group's claim policy refuses a claim.
+  private allowedClaimable(accountId: string, tokenId: string, timestamp: bigint): bigint {
+    const record = this.investors.get(investorKey(tokenId, accountId));
+    const claimable = this.computeClaimable(accountId, tokenId, timestamp);
+    if (!record || claimable === BigInt(0)) {
+      return claimable;
     }
+    return this.claimGate(accountId, record, claimable, timestamp) ? BigInt(0) : claimable;
+  }
 
-    const seenAccounts = new Set<string>();
+  // The final remainder of an allocation may always be claimed, even below the minimum.
+  private claimGate(
+    accountId: string,
+    record: InvestorRecord,
+    requested: bigint,
+    timestamp: bigint,
+  ): ClaimGate | null {
+    const policy = this.groups.get(record.groupId)?.claimPolicy;
+    if (!policy) {
+      return null;
+    }
+    let reason: ClaimGateReason | null = null;
+    let next: bigint | null = timestamp;
+    if (policy.minIntervalNs !== undefined && record.lastClaimAtNs !== undefined) {
+      const allowedAt = BigInt(record.lastClaimAtNs) + BigInt(policy.minIntervalNs);
+      if (timestamp < allowedAt) {
+        reason = 'cooldown';
+        next = allowedAt;
+      }
+    }
+    if (policy.minClaimAmount !== undefined) {
+      const remaining = BigInt(record.totalAllocation) - BigInt(record.claimed);
+      const minimum = BigInt(policy.minClaimAmount);
+      const required = minimum < remaining ? minimum : remaining;
+      if (requested < required) {
+        reason = reason ?? 'below_minimum';
+        const target = BigInt(record.claimed) + required;
+        const reachedAt = this.vestedReachedAt(accountId, record, target, timestamp);
+        next = next === null || reachedAt === null ? null : next > reachedAt ? next : reachedAt;
+      }
+    }
+    const anchor = BigInt(this.tgeTimestampNs);
+    if (nextWindowOpening(policy, anchor, timestamp) !== timestamp) {
+      reason = reason ?? 'window_closed';
+    }
+    if (reason === null) {
+      return null;
+    }
+    return {
+      reason,
+      nextClaimAtNs: next === null ? null : nextWindowOpening(policy, anchor, next),
+    };
+  }
 
-    for (const entry of investors) {
-      if (!entry.account_id || !entry.group_id || !entry.amount) {
-        throw new Error('Each investor must include account_id, group_id, and amount');
+  // Binary search over the vesting curve, which never decreases over time. Null if never reached.
+  private vestedReachedAt(
+    accountId: string,
+    record: InvestorRecord,
+    target: bigint,
+    from: bigint,
+  ): bigint | null {
+    const curve = this.vestingCurve(accountId, record);
+    if (!curve) {
+      return null;
+    }
+    if (this.vestedOnCurve(curve, from) >= target) {
+      return from;
+    }
+    const shift = from - this.vestingTimestamp(accountId, record.groupId, curve.schedule, from);
+    const boundaries = scheduleBoundaries(curve.schedule);
+    let high = boundaries[boundaries.length - 1] + shift;
+    if (high <= from || this.vestedOnCurve(curve, high) < target) {
+      return null;
+    }
+    let low = from;
+    while (high - low > BigInt(1)) {
+      const middle = (low + high) / BigInt(2);
+      if (this.vestedOnCurve(curve, middle) >= target) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high;
+  }
+
+  private vestedAt(accountId: string, record: InvestorRecord, timestamp: bigint): bigint {
+    const curve = this.vestingCurve(accountId, record);
+    return curve ? this.vestedOnCurve(curve, timestamp) : BigInt(0);
+  }
+
+  // Null once the investor's group is gone.
+  private vestingCurve(accountId: string, record: InvestorRecord): VestingCurve | null {
+    const group = this.groups.get(record.groupId);
+    if (!group) {
+      return null;
+    }
+    const allocation = BigInt(record.totalAllocation);
+    return {
+      schedule: this.resolveSchedule(group, record.scheduleOverrides),
+      pauses: this.excludedPauseIntervals(accountId, record.groupId),
+      total: allocation + BigInt(record.revokedAmount ?? '0'),
+      allocation,
+      revokedAtNs: record.revokedAtNs === undefined ? null : BigInt(record.revokedAtNs),
+    };
+  }
+
+  // Pauses are projected as they stand now: open-ended ones keep excluding time.
+  private vestedOnCurve(curve: VestingCurve, timestamp: bigint): bigint {
+    // A revoked allocation follows its original curve until the revocation froze it.
+    if (curve.revokedAtNs !== null && timestamp >= curve.revokedAtNs) {
+      return curve.allocation;
+    }
+    const start = BigInt(curve.schedule.startTimestampNs);
+    const vestingTimestamp = timestamp - excludedPauseTime(curve.pauses, start, timestamp);
+    const vested = this.computeVestedAmount(curve.total, curve.schedule, vestingTimestamp);
+    return vested > curve.allocation ? curve.allocation : vested;
+  }
+
+  // Shifts the timestamp back by the paused time since the schedule start that is flagged to
+  // be excluded from vesting.
+  private vestingTimestamp(
+    accountId: string,
+    groupId: string,
+    schedule: VestingSchedule,
+    timestamp: bigint,
+  ): bigint {
+    const start = BigInt(schedule.startTimestampNs);
+    const intervals = this.excludedPauseIntervals(accountId, groupId);
+    return timestamp - excludedPauseTime(intervals, start, timestamp);
+  }
+
+  // Settled and active claim pauses that apply to the investor and are excluded from vesting.
+  private excludedPauseIntervals(accountId: string, groupId: string): PauseInterval[] {
+    const intervals: PauseInterval[] = [];
+    const keys = [
+      this.pauseKey('claims'),
+      this.pauseKey('group_claims', groupId),
+      this.pauseKey('account_claims', accountId),
+    ];
+    for (const key of keys) {
+      for (const settled of this.excludedPauses.get(key) ?? []) {
+        intervals.push([BigInt(settled.startNs), BigInt(settled.endNs)]);
+      }
+      const pause = this.pauses.get(key);
+      if (pause && pause.excludeFromVesting) {
+        const end = pause.expiresAtNs === null ? null : BigInt(pause.expiresAtNs);
+        intervals.push([BigInt(pause.pausedAtNs), end]);
       }
-      if (seenAccounts.has(entry.account_id)) {
-        throw new Error(`Duplicate investor entry for ${entry.account_id}`);
+    }
+    return intervals;
+  }
+
+  private resolveSchedule(
+    group: GroupConfigStored,
+    overrides: ScheduleOverrides = {},
+  ): VestingSchedule {
+    return {
+      startTimestampNs: overrides.startTimestampNs ?? this.tgeTimestampNs,
+      cliffDurationNs: overrides.cliffDurationNs ?? group.cliffDurationNs,
+      vestingDurationNs: overrides.vestingDurationNs ?? group.vestingDurationNs,
+      initialUnlockBasisPoints:
+        overrides.initialUnlockBasisPoints ?? group.initialUnlockBasisPoints ?? '0',
+      initialClaimBasisPoints:
+        overrides.initialClaimBasisPoints ?? this.initialClaimBasisPoints ?? '0',
+      initialClaimAvailableTimestampNs: this.initialClaimAvailableTimestampNs,
+      unlockCheckpoints: group.unlockCheckpoints,
+      unlockMode: group.unlockMode,
+    };
+  }
+
+  private computeVestedAmount(
+    total: bigint,
+    schedule: VestingSchedule,
+    timestamp: bigint,
+  ): bigint {
+    const { initialClaim, postCliff, linear, checkpoints } = this.computeVestedBreakdown(
+      total,
+      schedule,
+      timestamp,
+    );
+    const vested = initialClaim + postCliff + linear + checkpoints;
+    return vested > total ? total : vested;
+  }
+
+  private computeVestedBreakdown(
+    total: bigint,
+    schedule: VestingSchedule,
+    timestamp: bigint,
+  ): VestedBreakdown {
+    const start = BigInt(schedule.startTimestampNs);
+    const cliff = BigInt(schedule.cliffDurationNs);
+    const vesting = BigInt(schedule.vestingDurationNs);
+    const initialClaimStart = BigInt(schedule.initialClaimAvailableTimestampNs);
+    const initialClaimBps = BigInt(schedule.initialClaimBasisPoints);
+    const postCliffBps = BigInt(schedule.initialUnlockBasisPoints);
+
+    const initialPortionRaw = (total * initialClaimBps) / BASIS_POINTS_DENOMINATOR;
+    const initialPortion = initialPortionRaw > total ? total : initialPortionRaw;
+    const remainingAfterInitial = total - initialPortion;
+    const postCliffPortionRaw = (total * postCliffBps) / BASIS_POINTS_DENOMINATOR;
+    const postCliffPortion =
+      postCliffPortionRaw > remainingAfterInitial ? remainingAfterInitial : postCliffPortionRaw;
+    const linearPortionBase = total - initialPortion - postCliffPortion;
+
+    const breakdown: VestedBreakdown = {
+      initialClaim: BigInt(0),
+      postCliff: BigInt(0),
+      linear: BigInt(0),
+      checkpoints: BigInt(0),
+    };
+    if (timestamp >= initialClaimStart) {
+      breakdown.initialClaim = initialPortion;
+    }
+
+    if (schedule.unlockCheckpoints && schedule.unlockCheckpoints.length > 0) {
+      if (timestamp >= start) {
+        breakdown.checkpoints = computeCheckpointAmount(
+          remainingAfterInitial,
+          schedule.unlockCheckpoints,
+          schedule.unlockMode ?? 'step',
+          timestamp - start,
+        );
       }
-      seenAccounts.add(entry.account_id);
-      const group = this.groups.get(entry.group_id);
+      return breakdown;
+    }
+
+    if (timestamp < start + cliff) {
+      return breakdown;
+    }
+
+    const elapsed = timestamp - (start + cliff);
+    if (vesting === BigInt(0) || elapsed >= vesting) {
+      // A finished schedule releases everything, even an initial claim that has not opened yet.
+      return {
+        initialClaim: initialPortion,
+        postCliff: postCliffPortion,
+        linear: linearPortionBase,
+        checkpoints: BigInt(0),
+      };
+    }
+
+    breakdown.postCliff = postCliffPortion;
+    breakdown.linear = (linearPortionBase * elapsed) / vesting;
+    return breakdown;
+  }
+
+  // Returns the command, or the reason it was rejected. An empty msg is a plain pool deposit.
+  private parseDepositCommand(msg: string, tokenId: string): DepositCommand | string {
+    if (msg === '') {
+      return {};
+    }
+    let command: DepositCommand;
+    try {
+      command = JSON.parse(msg);
+    } catch (error) {
+      return 'msg is not valid JSON';
+    }
+    if (typeof command !== 'object' || command === null || Array.isArray(command)) {
+      return 'msg must be a JSON object';
+    }
+    const keys = Object.keys(command);
+    if (keys.length !== 1) {
+      return 'msg must contain exactly one command';
+    }
+    if (command.fund_group !== undefined) {
+      const group =
+        typeof command.fund_group === 'string' ? this.groups.get(command.fund_group) : null;
       if (!group) {
-        throw new Error(`Unknown group_id ${entry.group_id}`);
+        return `Unknown group_id ${command.fund_group}`;
       }
-      const amount = BigInt(entry.amount);
-      if (amount <= BigInt(0)) {
-        throw new Error('Investor amount must be positive');
+      if (this.tokenOf(command.fund_group) !== tokenId) {
+        return `Group ${command.fund_group} vests another token`;
+      }
+      return command;
+    }
+    if (command.allocate !== undefined) {
+      return Array.isArray(command.allocate) ? command : 'allocate must be an array';
+    }
+    if (command.refund_excess !== undefined) {
+      return command.refund_excess === true ? command : 'refund_excess must be true';
+    }
+    return `Unknown command ${keys[0]}`;
+  }
+
+  // Failures throw, which makes the token refund the whole deposit.
+  private allocateFromDeposit(
+    senderId: string,
+    tokenId: string,
+    investors: InvestorInput[],
+    deposit: bigint,
+  ): void {
+    if (!this.hasRole('allocation_manager', senderId)) {
+      throw new Error('Only owner or allocation_manager can allocate through a deposit');
+    }
+    for (const entry of investors) {
+      if (this.tokenOf(entry.group_id) !== tokenId) {
+        throw new Error(`Group ${entry.group_id} does not vest the deposited token`);
       }
+    }
+    const committedBefore = BigInt(this.ledger(tokenId).totalCommitted);
+    const [bytes] = this.upsertInvestorsInternal(investors, false, senderId);
+    if (BigInt(this.ledger(tokenId).totalCommitted) - committedBefore > deposit) {
+      throw new Error('Deposit does not cover the allocated amount');
+    }
+    // A token transfer cannot carry NEAR, so new records draw on the sender's storage credit.
+    this.spendStorageCredit(senderId, bytes * STORAGE_PRICE_PER_BYTE);
+  }
+
+  // With a payer, each new record's bytes are remembered so pruning can refund them.
+  // Returns the bytes new and grown records added, which the payer has to cover, the number of
+  // investors a `replace` page removed and where its next page starts. Bytes that replace mode
+  // frees are refunded to their own payers and never offset the charge.
+  private upsertInvestorsInternal(
+    investors: InvestorInput[],
+    strict: boolean,
+    payer?: string,
+    mode?: UpsertMode,
+    page: [number, number] = [0, DEFAULT_PAGE_LIMIT],
+  ): [bigint, number, number | null] {
+    if (!Array.isArray(investors) || investors.length === 0) {
+      throw new Error('investors array required');
+    }
+    const usage = near.storageUsage();
+
+    const seenKeys = new Set<string>();
+    const touchedTokens = new Set<string>();
+    const upserted: InvestorUpsertedEntry[] = [];
+    let addedBytes = BigInt(0);
 
-      const current = this.investors.get(entry.account_id);
+    for (const entry of investors) {
+      const { key, tokenId, amount, overrides, current } = this.planInvestorRow(
+        entry,
+        mode,
+        seenKeys,
+      );
+      touchedTokens.add(tokenId);
+
+      const entryUsage = near.storageUsage();
       if (current) {
-        const alreadyClaimed = BigInt(current.claimed);
-        if (amount < alreadyClaimed) {
-          throw new Error(`New allocation for ${entry.account_id} cannot be less than claimed amount`);
-        }
-        this.investors.set(entry.account_id, {
+        this.investors.set(key, {
+          ...current,
           groupId: entry.group_id,
           totalAllocation: amount.toString(),
-          claimed: alreadyClaimed.toString(),
+          scheduleOverrides:
+            overrides === undefined ? current.scheduleOverrides : overrides ?? undefined,
         });
       } else {
-        this.investors.set(entry.account_id, {
+        this.investors.set(key, {
           groupId: entry.group_id,
           totalAllocation: amount.toString(),
           claimed: '0',
+          scheduleOverrides: overrides ?? undefined,
+        });
+      }
+      this.reindexInvestor(entry.account_id, current, this.investors.get(key));
+      const bytes = near.storageUsage() - entryUsage;
+      if (bytes > BigInt(0)) {
+        addedBytes += bytes;
+      }
+      if (!current && payer !== undefined) {
+        this.storageDeposits.set(key, { payer, bytes: bytes.toString() });
+      }
+      upserted.push({
+        account_id: entry.account_id,
+        group_id: entry.group_id,
+        previous_allocation: current ? current.totalAllocation : '0',
+        total_allocation: amount.toString(),
+        schedule_overrides: this.investors.get(key)!.scheduleOverrides ?? null,
+      });
+    }
+
+    const removed: InvestorRemovedEntry[] = [];
+    const refunds = new Map<string, bigint>();
+    let nextIndex: number | null = null;
+    if (mode === 'replace') {
+      const groupIds = new Set(investors.map((entry) => entry.group_id));
+      const replaced = this.replacePage(groupIds, seenKeys, page);
+      // Removing in walk order swaps members exactly as the walk assumed.
+      for (const [groupId, accountId, key, record] of replaced.missing) {
+        this.assertRemovable(accountId, record);
+        this.removeInvestor(key, accountId, record, refunds);
+        removed.push({
+          account_id: accountId,
+          token_id: this.tokenOf(groupId),
+          group_id: groupId,
+          previous_allocation: record.totalAllocation,
         });
       }
+      nextIndex = replaced.nextIndex;
+    }
+
+    for (const tokenId of touchedTokens) {
+      if (strict && this.computeSolvency(tokenId).shortfall > BigInt(0)) {
+        throw new Error('Allocations exceed the funded pool balance');
+      }
+    }
+    this.trackStorage('investors', usage);
+    for (const [refundPayer, refund] of refunds) {
+      this.refundNear(refundPayer, refund);
+    }
+
+    emitEvent('investors_upserted', { investors: upserted });
+    if (removed.length > 0) {
+      emitEvent('investors_removed', { investors: removed });
     }
+    return [addedBytes, removed.length, nextIndex];
   }
 
-  @call({ payableFunction: true })
-  claim({ account_id }: ClaimArgs): NearPromise {
-    this.assertOneYocto();
-    const claimant = account_id ?? near.predecessorAccountId();
-    const isSelfClaim = claimant === near.predecessorAccountId();
-    if (!isSelfClaim && near.predecessorAccountId() !== this.owner) {
-      throw new Error('Only owner can claim on behalf of investors');
+  // Validates one batch row against stored state; shared by upserts and validate_investors.
+  private planInvestorRow(
+    entry: InvestorInput,
+    mode: UpsertMode | undefined,
+    seenKeys: Set<string>,
+  ): PlannedUpsert {
+    if (!entry.account_id || !entry.group_id || !entry.amount) {
+      throw new Error('Each investor must include account_id, group_id, and amount');
+    }
+    const group = this.groups.get(entry.group_id);
+    if (!group) {
+      throw new Error(`Unknown group_id ${entry.group_id}`);
+    }
+    const key = investorKey(group.tokenId, entry.account_id);
+    if (seenKeys.has(key)) {
+      throw new Error(`Duplicate investor entry for ${entry.account_id}`);
+    }
+    seenKeys.add(key);
+    const amount = BigInt(entry.amount);
+    if (amount <= BigInt(0)) {
+      throw new Error('Investor amount must be positive');
+    }
+    const overrides =
+      entry.schedule === undefined ? undefined : this.parseScheduleOverrides(entry.schedule);
+
+    const current = this.investors.get(key);
+    if (current) {
+      if (mode === 'create-only') {
+        throw new Error(`Investor ${entry.account_id} already has an allocation`);
+      }
+      if (current.revokedAtNs !== undefined) {
+        throw new Error(`Investor ${entry.account_id} has been revoked`);
+      }
+      this.assertNoPendingClaim(entry.account_id, current);
+      if (amount < BigInt(current.claimed)) {
+        throw new Error(`New allocation for ${entry.account_id} cannot be less than claimed amount`);
+      }
+    } else if (mode === 'update-only') {
+      throw new Error(`Investor ${entry.account_id} has no allocation to update`);
+    }
+    return { key, tokenId: group.tokenId, amount, overrides, current };
+  }
+
+  // Walks up to `limit` members of the batch's groups, in group id order, from `start` and
+  // returns those the batch leaves out; revoked records stay. Removing a member moves its
+  // group's last member into its slot, so the walk checks that slot again and `nextIndex` is
+  // where the same batch resumes once this page's removals are applied.
+  private replacePage(
+    groupIds: Set<string>,
+    keptKeys: Set<string>,
+    [start, limit]: [number, number],
+  ): ReplacePage {
+    const missing: [string, string, string, InvestorRecord][] = [];
+    let offset = 0;
+    let checked = 0;
+    for (const groupId of [...groupIds].sort()) {
+      if (!this.groups.get(groupId)) {
+        continue;
+      }
+      const tokenId = this.tokenOf(groupId);
+      const members = this.groupInvestors(groupId);
+      const memberAt = (index: number): string => members.elements({ start: index, limit: 1 })[0];
+      const swapped = new Map<number, string>();
+      let length = members.length;
+      let index = Math.max(start - offset, 0);
+      while (index < length) {
+        if (checked === limit) {
+          return { missing, nextIndex: offset + index };
+        }
+        checked += 1;
+        const accountId = swapped.get(index) ?? memberAt(index);
+        const key = investorKey(tokenId, accountId);
+        const record = this.investors.get(key)!;
+        if (keptKeys.has(key) || record.revokedAtNs !== undefined) {
+          index += 1;
+          continue;
+        }
+        missing.push([groupId, accountId, key, record]);
+        length -= 1;
+        if (index < length) {
+          swapped.set(index, swapped.get(length) ?? memberAt(length));
+        }
+      }
+      offset += length;
+    }
+    return { missing, nextIndex: null };
+  }
+
+  // Version 0 records are unreachable under the new keys until migrate_records moves them.
+  private assertRecordsMigrated(): void {
+    if (this.pendingRecords > 0) {
+      throw new Error('Investor records are still being migrated');
+    }
+  }
+
+  private assertRemovable(accountId: string, record: InvestorRecord): void {
+    this.assertNoPendingClaim(accountId, record);
+    if (BigInt(record.claimed) > BigInt(0) || record.iou !== undefined) {
+      throw new Error(`Investor ${accountId} has already claimed and cannot be removed`);
+    }
+  }
+
+  // Deletes the record and adds its storage deposit to the payer's refund.
+  private removeInvestor(
+    key: string,
+    accountId: string,
+    record: InvestorRecord,
+    refunds: Map<string, bigint>,
+  ): void {
+    this.investors.remove(key);
+    this.reindexInvestor(accountId, record, null);
+    const deposit = this.storageDeposits.get(key);
+    if (deposit) {
+      this.storageDeposits.remove(key);
+      const refund = BigInt(deposit.bytes) * STORAGE_PRICE_PER_BYTE;
+      refunds.set(deposit.payer, (refunds.get(deposit.payer) ?? BigInt(0)) + refund);
+    }
+  }
+
+  // Returns the [from_index, limit] page a `replace` batch walks; other modes take no page.
+  private resolveUpsertMode(mode: UpsertMode | undefined, page: PaginationArgs): [number, number] {
+    if (mode !== undefined && !UPSERT_MODES.includes(mode)) {
+      throw new Error(`mode must be one of ${UPSERT_MODES.join(', ')}`);
+    }
+    if (mode !== 'replace' && (page.from_index !== undefined || page.limit !== undefined)) {
+      throw new Error('from_index and limit are only allowed with mode replace');
+    }
+    const [start, end] = resolvePage(Number.MAX_SAFE_INTEGER, page);
+    return [start, end - start];
+  }
+
+  private setGroupsInternal(groups: GroupConfigInput[]): void {
+    if (!Array.isArray(groups) || groups.length === 0) {
+      throw new Error('groups must be a non-empty array');
+    }
+    const previous = this.serializeGroups();
+    const parsed = new Map<string, GroupConfigStored>();
+    for (const group of groups) {
+      if (!group.id) {
+        throw new Error('group id is required');
+      }
+      if (parsed.has(group.id)) {
+        throw new Error(`Duplicate group id ${group.id}`);
+      }
+      parsed.set(group.id, this.parseGroupConfig(group, previous[group.id]?.tokenId));
+    }
+
+    for (const id of Object.keys(previous)) {
+      if (!parsed.has(id) && this.groupInvestors(id).length > 0) {
+        throw new Error(`Group ${id} still has investors; use remove_group to move them`);
+      }
+    }
+    const usage = near.storageUsage();
+    // Released while the dropped groups still resolve to their token.
+    for (const id of Object.keys(previous)) {
+      if (!parsed.has(id)) {
+        this.releaseEarmark(id);
+      }
+    }
+
+    this.groups.clear();
+    for (const [id, config] of parsed) {
+      const previousConfig = previous[id] ?? null;
+      if (previousConfig) {
+        this.assertGroupTransition(id, previousConfig, config);
+      }
+      this.registerToken(config.tokenId);
+      this.groups.set(id, config);
+      this.recordGroupChange(id, previousConfig, config);
+    }
+    for (const id of Object.keys(previous)) {
+      if (!parsed.has(id)) {
+        this.recordGroupChange(id, previous[id], null);
+      }
+    }
+    this.trackStorage('groups', usage);
+  }
+
+  // An omitted token_id keeps the group's current token, or the default one for new groups.
+  private parseGroupConfig(group: GroupConfigInput, currentTokenId?: string): GroupConfigStored {
+    const tokenId = group.token_id ?? currentTokenId ?? this.tokenAccountId;
+    if (typeof tokenId !== 'string' || tokenId === '') {
+      throw new Error('token_id must be a non-empty account id');
+    }
+    const checkpoints = this.parseUnlockCheckpoints(group);
+    if (
+      checkpoints &&
+      (group.cliff_duration_ns !== undefined ||
+        group.vesting_duration_ns !== undefined ||
+        group.initial_unlock_basis_points !== undefined)
+    ) {
+      throw new Error(
+        'cliff_duration_ns, vesting_duration_ns and initial_unlock_basis_points ' +
+          'cannot be combined with unlock_checkpoints',
+      );
+    }
+    if (!checkpoints && (!group.cliff_duration_ns || !group.vesting_duration_ns)) {
+      throw new Error('cliff_duration_ns and vesting_duration_ns are required');
+    }
+    const cliff = BigInt(group.cliff_duration_ns ?? '0');
+    const vesting = BigInt(group.vesting_duration_ns ?? '0');
+    const initialUnlockRaw = group.initial_unlock_basis_points ?? '0';
+    const initialUnlockBps = BigInt(initialUnlockRaw);
+    if (cliff < BigInt(0) || vesting < BigInt(0)) {
+      throw new Error('Durations must be non-negative');
+    }
+    if (initialUnlockBps < BigInt(0)) {
+      throw new Error('initial_unlock_basis_points must be non-negative');
+    }
+    if (initialUnlockBps > BASIS_POINTS_DENOMINATOR) {
+      throw new Error('initial_unlock_basis_points cannot exceed 100%');
+    }
+    return {
+      tokenId,
+      cliffDurationNs: cliff.toString(),
+      vestingDurationNs: vesting.toString(),
+      initialUnlockBasisPoints: initialUnlockBps.toString(),
+      revocable: group.revocable === true,
+      unlockCheckpoints: checkpoints,
+      unlockMode: checkpoints ? group.unlock_mode ?? 'step' : undefined,
+      claimPolicy: this.parseClaimPolicy(group.claim_policy),
+    };
+  }
+
+  private parseClaimPolicy(input: ClaimPolicyInput | undefined): ClaimPolicy | undefined {
+    if (input === undefined || input === null) {
+      return undefined;
+    }
+    const policy: ClaimPolicy = {};
+    if (input.min_claim_amount !== undefined) {
+      policy.minClaimAmount = this.parseNonNegative(input.min_claim_amount, 'min_claim_amount');
+    }
+    if (input.min_interval_ns !== undefined) {
+      policy.minIntervalNs = this.parseNonNegative(input.min_interval_ns, 'min_interval_ns');
+    }
+    if ((input.window_period_ns === undefined) !== (input.window_duration_ns === undefined)) {
+      throw new Error('window_period_ns and window_duration_ns must be set together');
+    }
+    if (input.window_period_ns !== undefined && input.window_duration_ns !== undefined) {
+      const period = BigInt(input.window_period_ns);
+      const duration = BigInt(input.window_duration_ns);
+      if (duration <= BigInt(0) || duration > period) {
+        throw new Error('window_duration_ns must be positive and at most window_period_ns');
+      }
+      policy.windowPeriodNs = period.toString();
+      policy.windowDurationNs = duration.toString();
+    }
+    return Object.keys(policy).length > 0 ? policy : undefined;
+  }
+
+  private assertGroupTransition(
+    groupId: string,
+    previous: GroupConfigStored,
+    next: GroupConfigStored,
+  ): void {
+    if (
+      next.tokenId !== previous.tokenId &&
+      (this.groupInvestors(groupId).length > 0 || this.earmarkOf(groupId) > BigInt(0))
+    ) {
+      throw new Error(`Group ${groupId} holds allocations or funds and cannot change token`);
+    }
+    if (this.groupInvestors(groupId).length === 0) {
+      return;
+    }
+    if (next.revocable === true && previous.revocable !== true) {
+      throw new Error(`Group ${groupId} has investors and cannot be made revocable`);
+    }
+    // Compare the base schedule and every distinct per-investor override of it on a reference
+    // allocation at the current block.
+    const now = BigInt(near.blockTimestamp());
+    const overrideSets = new Map<string, ScheduleOverrides>([['{}', {}]]);
+    for (const accountId of this.groupInvestors(groupId).toArray()) {
+      const { scheduleOverrides } = this.investors.get(investorKey(previous.tokenId, accountId))!;
+      if (scheduleOverrides) {
+        overrideSets.set(JSON.stringify(scheduleOverrides), scheduleOverrides);
+      }
+    }
+    for (const overrides of overrideSets.values()) {
+      const vestedBefore = this.computeVestedAmount(
+        REFERENCE_ALLOCATION,
+        this.resolveSchedule(previous, overrides),
+        now,
+      );
+      const vestedAfter = this.computeVestedAmount(
+        REFERENCE_ALLOCATION,
+        this.resolveSchedule(next, overrides),
+        now,
+      );
+      if (vestedAfter < vestedBefore) {
+        throw new Error(`Update to group ${groupId} would reduce already vested amounts`);
+      }
     }
+  }
 
-    const record = this.investors.get(claimant);
-    if (!record) {
-      throw new Error('No allocation found for this account');
-    }
+  private claimHistory(accountId: string): Vector<ClaimHistoryEntry> {
+    return (
+      this.claimHistories.get(accountId, { reconstructor: Vector.reconstruct }) ??
+      new Vector<ClaimHistoryEntry>(`claim_history:${accountId}:`)
+    );
+  }
 
-    const claimable = this.computeClaimable(claimant, BigInt(near.blockTimestamp()));
-    if (claimable <= BigInt(0)) {
-      throw new Error('Nothing to claim at this time');
+  // Returns the entry's index so the transfer callback can settle it. A retry after a reverted
+  // payout overwrites that entry, so failing transfers cannot grow the ledger without limit.
+  private recordClaim(
+    accountId: string,
+    tokenId: string,
+    receiverId: string,
+    amount: bigint,
+    iouPaid: bigint,
+    memo: string,
+  ): number {
+    const history = this.claimHistory(accountId);
+    const entry: ClaimHistoryEntry = {
+      tokenId,
+      receiverId,
+      amount: amount.toString(),
+      iouPaid: iouPaid.toString(),
+      initiator: near.predecessorAccountId(),
+      timestampNs: near.blockTimestamp().toString(),
+      blockHeight: near.blockHeight().toString(),
+      status: 'pending',
+      memo,
+    };
+    const key = investorKey(tokenId, accountId);
+    const record = this.investors.get(key);
+    const retried = record?.revertedClaimIndex;
+    if (record && retried !== undefined && retried < history.length) {
+      const reverted = history.get(retried)!;
+      history.replace(retried, { ...entry, failedAttempts: (reverted.failedAttempts ?? 0) + 1 });
+      this.investors.set(key, { ...record, revertedClaimIndex: undefined });
+      return retried;
     }
+    history.push(entry);
+    this.claimHistories.set(accountId, history);
+    return history.length - 1;
+  }
 
-    if (claimable > BigInt(this.poolBalance)) {
-      throw new Error('Insufficient available pool balance; try again later');
+  // Transfers started before the ledger existed carry no index and are left out.
+  private settleClaimEntry(
+    accountId: string,
+    index: number | undefined,
+    status: LedgerStatus,
+  ): void {
+    const history = this.claimHistory(accountId);
+    if (index === undefined || index >= history.length) {
+      return;
     }
+    const entry = history.get(index)!;
+    history.replace(index, { ...entry, status });
+    const key = investorKey(entry.tokenId, accountId);
+    const record = this.investors.get(key);
+    if (status === 'reverted' && record) {
+      this.investors.set(key, { ...record, revertedClaimIndex: index });
+    }
+  }
 
-    this.investors.set(claimant, {
-      ...record,
-      claimed: (BigInt(record.claimed) + claimable).toString(),
+  private recordTreasury(
+    action: TreasuryAction,
+    tokenId: string,
+    accountId: string,
+    amount: bigint,
+    memo: string,
+  ): number {
+    this.treasuryHistory.push({
+      action,
+      tokenId,
+      accountId,
+      amount: amount.toString(),
+      initiator: near.predecessorAccountId(),
+      timestampNs: near.blockTimestamp().toString(),
+      blockHeight: near.blockHeight().toString(),
+      // Deposits have already arrived; withdrawals wait for their transfer.
+      status: action === 'deposit' ? 'settled' : 'pending',
+      memo,
     });
-    this.totalClaimed = (BigInt(this.totalClaimed) + claimable).toString();
-    this.poolBalance = (BigInt(this.poolBalance) - claimable).toString();
+    return this.treasuryHistory.length - 1;
+  }
 
-    near.log(`Processing claim of ${claimable.toString()} tokens for ${claimant}`);
+  private settleTreasuryEntry(index: number | undefined, status: LedgerStatus): void {
+    if (index === undefined || index >= this.treasuryHistory.length) {
+      return;
+    }
+    this.treasuryHistory.replace(index, { ...this.treasuryHistory.get(index)!, status });
+  }
 
-    const transfer = NearPromise.new(this.tokenAccountId).functionCall(
-      'ft_transfer',
-      JSON.stringify({
-        receiver_id: claimant,
-        amount: claimable.toString(),
-        memo: `vesting-claim`,
-      }),
-      ONE_YOCTO,
-      GAS_FOR_FT_TRANSFER,
+  private groupHistory(groupId: string): Vector<GroupHistoryEntry> {
+    return (
+      this.groupChanges.get(groupId, { reconstructor: Vector.reconstruct }) ??
+      new Vector<GroupHistoryEntry>(`group_history:${groupId}:`)
     );
+  }
 
-    const callback = NearPromise.new(near.currentAccountId()).functionCall(
-      'on_claim_complete',
-      JSON.stringify({
-        account_id: claimant,
-        amount: claimable.toString(),
-      }),
-      NO_DEPOSIT,
-      GAS_FOR_RESOLVE,
-    );
+  private recordGroupChange(
+    groupId: string,
+    previous: GroupConfigStored | null,
+    current: GroupConfigStored | null,
+  ): void {
+    if (previous && current && JSON.stringify(previous) === JSON.stringify(current)) {
+      return;
+    }
+    const action: GroupChangeAction = !previous ? 'added' : !current ? 'removed' : 'updated';
+    const history = this.groupHistory(groupId);
+    history.push({
+      action,
+      actor: near.predecessorAccountId(),
+      timestampNs: near.blockTimestamp().toString(),
+      previous,
+      current,
+    });
+    this.groupChanges.set(groupId, history);
+    emitEvent('group_changed', { group_id: groupId, action, previous, current });
+  }
 
-    return transfer.then(callback);
+  private parseUnlockCheckpoints(group: GroupConfigInput): UnlockCheckpoint[] | undefined {
+    if (group.unlock_checkpoints === undefined) {
+      if (group.unlock_mode !== undefined) {
+        throw new Error('unlock_mode requires unlock_checkpoints');
+      }
+      return undefined;
+    }
+    if (!Array.isArray(group.unlock_checkpoints) || group.unlock_checkpoints.length === 0) {
+      throw new Error('unlock_checkpoints must be a non-empty array');
+    }
+    if (
+      group.unlock_mode !== undefined &&
+      group.unlock_mode !== 'step' &&
+      group.unlock_mode !== 'interpolated'
+    ) {
+      throw new Error('unlock_mode must be either step or interpolated');
+    }
+    const checkpoints: UnlockCheckpoint[] = [];
+    let previousOffset = BigInt(-1);
+    let previousBps = BigInt(0);
+    for (const checkpoint of group.unlock_checkpoints) {
+      const offset = BigInt(checkpoint.offset_ns);
+      const bps = BigInt(checkpoint.cumulative_basis_points);
+      if (offset <= previousOffset) {
+        throw new Error('unlock_checkpoints offsets must be non-negative and strictly increasing');
+      }
+      if (bps < previousBps || bps > BASIS_POINTS_DENOMINATOR) {
+        throw new Error('unlock_checkpoints basis points must be non-decreasing and at most 10000');
+      }
+      checkpoints.push({ offsetNs: offset.toString(), cumulativeBasisPoints: bps.toString() });
+      previousOffset = offset;
+      previousBps = bps;
+    }
+    if (previousBps !== BASIS_POINTS_DENOMINATOR) {
+      throw new Error('unlock_checkpoints must end at 10000 basis points');
+    }
+    return checkpoints;
   }
 
-  @call({ payableFunction: true })
-  withdraw_unallocated({ amount, recipient, memo }: WithdrawArgs): NearPromise {
-    this.assertOwner();
-    this.assertOneYocto();
-    if (!amount) {
-      throw new Error('Amount is required');
+  // Null, for an explicit `schedule: null` or an empty object, means no overrides.
+  private parseScheduleOverrides(input: ScheduleOverrideInput | null): ScheduleOverrides | null {
+    if (input === null) {
+      return null;
     }
-    const withdrawal = BigInt(amount);
-    if (withdrawal <= BigInt(0)) {
-      throw new Error('Withdrawal amount must be positive');
+    const overrides: ScheduleOverrides = {};
+    if (input.start_timestamp_ns !== undefined) {
+      overrides.startTimestampNs = this.parseNonNegative(
+        input.start_timestamp_ns,
+        'start_timestamp_ns',
+      );
+    }
+    if (input.cliff_duration_ns !== undefined) {
+      overrides.cliffDurationNs = this.parseNonNegative(
+        input.cliff_duration_ns,
+        'cliff_duration_ns',
+      );
     }
-    if (withdrawal > BigInt(this.poolBalance)) {
-      throw new Error('Amount exceeds available pool balance');
+    if (input.vesting_duration_ns !== undefined) {
+      overrides.vestingDurationNs = this.parseNonNegative(
+        input.vesting_duration_ns,
+        'vesting_duration_ns',
+      );
     }
+    if (input.initial_unlock_basis_points !== undefined) {
+      overrides.initialUnlockBasisPoints = this.parseBasisPoints(
+        input.initial_unlock_basis_points,
+        'initial_unlock_basis_points',
+      );
+    }
+    if (input.initial_claim_basis_points !== undefined) {
+      overrides.initialClaimBasisPoints = this.parseBasisPoints(
+        input.initial_claim_basis_points,
+        'initial_claim_basis_points',
+      );
+    }
+    return Object.keys(overrides).length > 0 ? overrides : null;
+  }
 
-    const target = recipient ?? this.owner;
-    this.poolBalance = (BigInt(this.poolBalance) - withdrawal).toString();
-    this.totalWithdrawn = (BigInt(this.totalWithdrawn) + withdrawal).toString();
+  private parseNonNegative(value: string, field: string): string {
+    const parsed = BigInt(value);
+    if (parsed < BigInt(0)) {
+      throw new Error(`${field} must be non-negative`);
+    }
+    return parsed.toString();
+  }
 
-    near.log(`Withdrawing ${amount} tokens to ${target}`);
+  private parseBasisPoints(value: string, field: string): string {
+    const parsed = BigInt(value);
+    if (parsed < BigInt(0) || parsed > BASIS_POINTS_DENOMINATOR) {
+      throw new Error(`${field} must be between 0 and 10000`);
+    }
+    return parsed.toString();
+  }
 
-    const transfer = NearPromise.new(this.tokenAccountId).functionCall(
-      'ft_transfer',
-      JSON.stringify({
-        receiver_id: target,
-        amount,
-        memo: memo ?? 'vesting-withdrawal',
-      }),
-      ONE_YOCTO,
-      GAS_FOR_FT_TRANSFER,
-    );
+  private serializeGroups(): Record<string, GroupConfigStored> {
+    const snapshot: Record<string, GroupConfigStored> = {};
+    for (const [id, config] of this.groups.toArray()) {
+      snapshot[id] = config;
+    }
+    return snapshot;
+  }
 
-    const callback = NearPromise.new(near.currentAccountId()).functionCall(
-      'on_withdraw_complete',
-      JSON.stringify({
-        recipient: target,
-        amount,
-      }),
-      NO_DEPOSIT,
-      GAS_FOR_RESOLVE,
+  private groupInvestors(groupId: string): UnorderedSet<string> {
+    return (
+      this.groupMembers.get(groupId, { reconstructor: UnorderedSet.reconstruct }) ??
+      new UnorderedSet<string>(`group_investors:${groupId}:`)
     );
-
-    return transfer.then(callback);
   }
 
-  @call({})
-  ft_on_transfer({ sender_id, amount, msg }: FtOnTransferArgs): string {
-    this.assertTokenCaller();
-    if (!amount) {
-      throw new Error('Amount is required');
+  private reindexInvestor(
+    accountId: string,
+    previous: InvestorRecord | null,
+    next: InvestorRecord | null,
+  ): void {
+    if (previous) {
+      if (!next || next.groupId !== previous.groupId) {
+        const members = this.groupInvestors(previous.groupId);
+        members.remove(accountId);
+        this.groupMembers.set(previous.groupId, members);
+      }
+      this.adjustGroupStats(
+        previous.groupId,
+        -1,
+        -BigInt(previous.totalAllocation),
+        -BigInt(previous.claimed),
+      );
     }
-    const deposit = BigInt(amount);
-    if (deposit <= BigInt(0)) {
-      throw new Error('Deposit amount must be positive');
+    if (next) {
+      const members = this.groupInvestors(next.groupId);
+      if (members.set(accountId)) {
+        this.groupMembers.set(next.groupId, members);
+      }
+      this.adjustGroupStats(next.groupId, 1, BigInt(next.totalAllocation), BigInt(next.claimed));
     }
-
-    this.poolBalance = (BigInt(this.poolBalance) + deposit).toString();
-    this.totalDeposited = (BigInt(this.totalDeposited) + deposit).toString();
-
-    near.log(`Received ${amount} tokens from ${sender_id}${msg ? ` (${msg})` : ''}`);
-    return '0';
   }
 
-  @call({ privateFunction: true })
-  on_claim_complete({ account_id, amount }: { account_id: string; amount: string }): void {
-    this.assertSelf();
-    try {
-      near.promiseResult(0);
-    } catch (error) {
-      const record = this.investors.get(account_id);
-      if (!record) {
-        throw new Error('Investor record missing during claim revert');
-      }
-      const tokenAmount = BigInt(amount);
-      this.investors.set(account_id, {
-        ...record,
-        claimed: (BigInt(record.claimed) - tokenAmount).toString(),
-      });
-      this.totalClaimed = (BigInt(this.totalClaimed) - tokenAmount).toString();
-      this.poolBalance = (BigInt(this.poolBalance) + tokenAmount).toString();
-      near.log(`Token transfer failed for ${account_id}, reverting claim`);
-      throw new Error('Token transfer failed');
+  // Attributes the bytes written since `usageBefore` to one record type for get_storage_report.
+  private trackStorage(recordType: StorageRecordType, usageBefore: bigint): void {
+    const delta = near.storageUsage() - usageBefore;
+    if (delta === BigInt(0)) {
+      return;
     }
-    near.log(`Claim completed for ${account_id}`);
+    const bytes = BigInt(this.storageBytes.get(recordType) ?? '0') + delta;
+    this.storageBytes.set(recordType, bytes.toString());
   }
 
-  @call({ privateFunction: true })
-  on_withdraw_complete({ recipient, amount }: { recipient: string; amount: string }): void {
-    this.assertSelf();
-    try {
-      near.promiseResult(0);
-    } catch (error) {
-      const tokenAmount = BigInt(amount);
-      this.poolBalance = (BigInt(this.poolBalance) + tokenAmount).toString();
-      this.totalWithdrawn = (BigInt(this.totalWithdrawn) - tokenAmount).toString();
-      near.log(`Withdrawal transfer failed for ${recipient}, reverting state`);
-      throw new Error('Token transfer failed');
+  // Charges `bytes` against the caller's `available` deposit and refunds what is left.
+  private chargeStorageBytes(bytes: bigint, available: bigint): void {
+    const cost = bytes > BigInt(0) ? bytes * STORAGE_PRICE_PER_BYTE : BigInt(0);
+    if (available < cost) {
+      throw new Error(`Attach at least ${cost} yoctoNEAR to cover storage`);
     }
-    near.log(`Withdrawal completed to ${recipient}`);
+    this.refundNear(near.predecessorAccountId(), available - cost);
   }
 
-  @view({})
-  get_state(): {
-    owner: string;
-    token_account_id: string;
-    tge_timestamp_ns: string;
-    initial_claim_basis_points: string;
-    initial_claim_available_timestamp_ns: string;
-    total_deposited: string;
-    total_claimed: string;
-    total_withdrawn: string;
-    pool_balance: string;
-    groups: Record<string, GroupConfigStored>;
-  } {
-    return {
-      owner: this.owner,
-      token_account_id: this.tokenAccountId,
-      tge_timestamp_ns: this.tgeTimestampNs,
-      initial_claim_basis_points: this.initialClaimBasisPoints,
-      initial_claim_available_timestamp_ns: this.initialClaimAvailableTimestampNs,
-      total_deposited: this.totalDeposited,
-      total_claimed: this.totalClaimed,
-      total_withdrawn: this.totalWithdrawn,
-      pool_balance: this.poolBalance,
-      groups: this.serializeGroups(),
-    };
+  private spendStorageCredit(accountId: string, cost: bigint): void {
+    if (cost <= BigInt(0)) {
+      return;
+    }
+    const credit = BigInt(this.storageCredits.get(accountId) ?? '0');
+    if (credit < cost) {
+      throw new Error(
+        `Storage credit of ${accountId} does not cover ${cost} yoctoNEAR; call fund_storage_credit`,
+      );
+    }
+    this.setStorageCredit(accountId, credit - cost);
   }
 
-  @view({})
-  get_investor({ account_id }: { account_id: string }): InvestorRecord | null {
-    if (!account_id) {
-      throw new Error('account_id is required');
+  private setStorageCredit(accountId: string, credit: bigint): void {
+    if (credit > BigInt(0)) {
+      this.storageCredits.set(accountId, credit.toString());
+    } else {
+      this.storageCredits.remove(accountId);
     }
-    return this.investors.get(account_id);
   }
 
-  @view({})
-  get_claimable({ account_id }: { account_id: string }): string {
-    if (!account_id) {
-      throw new Error('account_id is required');
+  private refundNear(accountId: string, amount: bigint): void {
+    if (amount > BigInt(0)) {
+      NearPromise.new(accountId).transfer(amount).build();
     }
-    return this.computeClaimable(account_id, BigInt(near.blockTimestamp())).toString();
   }
 
-  private computeClaimable(accountId: string, timestamp: bigint): bigint {
-    const record = this.investors.get(accountId);
-    if (!record) {
-      return BigInt(0);
-    }
-    const group = this.groups.get(record.groupId);
-    if (!group) {
-      return BigInt(0);
+  private storageRecordCount(recordType: StorageRecordType): number {
+    switch (recordType) {
+      case 'investors':
+        return this.investors.length;
+      case 'groups':
+        return this.groups.length;
+      case 'merkle_roots':
+        return this.merkleRoots.length;
+      case 'roles':
+        return ROLES.reduce((count, role) => count + this.roleAccounts(role).length, 0);
+      case 'pauses':
+        return this.pauses.length;
     }
+  }
 
-    const total = BigInt(record.totalAllocation);
-    const claimed = BigInt(record.claimed);
-    if (total === claimed) {
-      return BigInt(0);
+  private registerToken(tokenId: string): void {
+    if (!this.tokens.get(tokenId)) {
+      this.tokens.set(tokenId, emptyLedger());
     }
+  }
 
-    const vestable = this.computeVestedAmount(total, group, timestamp);
-    if (vestable <= claimed) {
-      return BigInt(0);
-    }
-    return vestable - claimed;
+  // Groups that predate multi-token support vest the default token.
+  private tokenOf(groupId: string): string {
+    return this.groups.get(groupId)?.tokenId ?? this.tokenAccountId;
   }
 
-  private computeVestedAmount(
-    total: bigint,
-    group: GroupConfigStored,
-    timestamp: bigint,
-  ): bigint {
-    const start = BigInt(this.tgeTimestampNs);
-    const cliff = BigInt(group.cliffDurationNs);
-    const vesting = BigInt(group.vestingDurationNs);
-    const initialClaimStart = BigInt(this.initialClaimAvailableTimestampNs);
-    const initialClaimBps = BigInt(this.initialClaimBasisPoints ?? '0');
-    const postCliffBps = BigInt(group.initialUnlockBasisPoints ?? '0');
+  private tokenIds(): string[] {
+    return this.tokens.keys({ start: 0, limit: this.tokens.length });
+  }
 
-    const initialPortionRaw = (total * initialClaimBps) / BASIS_POINTS_DENOMINATOR;
-    const initialPortion = initialPortionRaw > total ? total : initialPortionRaw;
-    const remainingAfterInitial = total - initialPortion;
-    const postCliffPortionRaw = (total * postCliffBps) / BASIS_POINTS_DENOMINATOR;
-    const postCliffPortion =
-      postCliffPortionRaw > remainingAfterInitial ? remainingAfterInitial : postCliffPortionRaw;
-    const linearPortionBase = total - initialPortion - postCliffPortion;
+  private ledger(tokenId: string): TokenLedger {
+    return this.tokens.get(tokenId) ?? emptyLedger();
+  }
 
-    let vested = BigInt(0);
-    if (timestamp >= initialClaimStart) {
-      vested += initialPortion;
+  private updateLedger(
+    tokenId: string,
+    deltas: Partial<Record<keyof TokenLedger, bigint>>,
+  ): void {
+    const ledger = this.ledger(tokenId);
+    for (const [field, delta] of Object.entries(deltas) as [keyof TokenLedger, bigint][]) {
+      ledger[field] = (BigInt(ledger[field]) + delta).toString();
     }
+    this.tokens.set(tokenId, ledger);
+  }
 
-    if (timestamp < start + cliff) {
-      return vested > total ? total : vested;
-    }
+  // Every allocation or claimed change funnels through here, so the committed total of the
+  // group's token (allocated but not yet claimed) is maintained alongside the group aggregates.
+  private adjustGroupStats(
+    groupId: string,
+    investorDelta: number,
+    allocationDelta: bigint,
+    claimedDelta: bigint,
+  ): void {
+    this.updateLedger(this.tokenOf(groupId), { totalCommitted: allocationDelta - claimedDelta });
+    const stats = this.groupStats.get(groupId) ?? {
+      investorCount: 0,
+      totalAllocation: '0',
+      totalClaimed: '0',
+    };
+    this.groupStats.set(groupId, {
+      investorCount: stats.investorCount + investorDelta,
+      totalAllocation: (BigInt(stats.totalAllocation) + allocationDelta).toString(),
+      totalClaimed: (BigInt(stats.totalClaimed) + claimedDelta).toString(),
+    });
+  }
 
-    if (vesting === BigInt(0)) {
-      return total;
-    }
+  private toInvestorView(accountId: string, tokenId: string, record: InvestorRecord): InvestorView {
+    const [claimed, pending] = this.splitClaimed(record);
+    return {
+      account_id: accountId,
+      token_id: tokenId,
+      group_id: record.groupId,
+      total_allocation: record.totalAllocation,
+      claimed: claimed.toString(),
+      pending: pending.toString(),
+      receiver_id: record.receiverId ?? null,
+    };
+  }
 
-    vested += postCliffPortion;
-    const elapsed = timestamp - (start + cliff);
-    if (elapsed >= vesting) {
-      return total;
+  // The settled part of `claimed`, and the amount of the transfer still in flight.
+  private splitClaimed(record: InvestorRecord): [bigint, bigint] {
+    const pending = record.pendingClaim;
+    if (!pending) {
+      return [BigInt(record.claimed), BigInt(0)];
     }
-
-    const linearVested = (linearPortionBase * elapsed) / vesting;
-    vested += linearVested;
-    return vested > total ? total : vested;
+    // The IOU share of a transfer was counted as claimed when the IOU was recorded.
+    const unsettled = BigInt(pending.amount) - BigInt(pending.iouPaid);
+    return [BigInt(record.claimed) - unsettled, BigInt(pending.amount)];
   }
 
-  private setGroupsInternal(groups: GroupConfigInput[]): void {
-    if (!Array.isArray(groups) || groups.length === 0) {
-      throw new Error('groups must be a non-empty array');
-    }
-    const seen = new Set<string>();
-    this.groups.clear();
-    for (const group of groups) {
-      if (!group.id) {
-        throw new Error('group id is required');
-      }
-      if (seen.has(group.id)) {
-        throw new Error(`Duplicate group id ${group.id}`);
-      }
-      seen.add(group.id);
-      const cliff = BigInt(group.cliff_duration_ns);
-      const vesting = BigInt(group.vesting_duration_ns);
-      const initialUnlockRaw = group.initial_unlock_basis_points ?? '0';
-      const initialUnlockBps = BigInt(initialUnlockRaw);
-      if (cliff < BigInt(0) || vesting < BigInt(0)) {
-        throw new Error('Durations must be non-negative');
-      }
-      if (initialUnlockBps < BigInt(0)) {
-        throw new Error('initial_unlock_basis_points must be non-negative');
-      }
-      if (initialUnlockBps > BASIS_POINTS_DENOMINATOR) {
-        throw new Error('initial_unlock_basis_points cannot exceed 100%');
-      }
-      this.groups.set(group.id, {
-        cliffDurationNs: cliff.toString(),
-        vestingDurationNs: vesting.toString(),
-        initialUnlockBasisPoints: initialUnlockBps.toString(),
-      });
+  private toInvestorStatus(
+    accountId: string,
+    tokenId: string,
+    record: InvestorRecord,
+    now: bigint,
+  ): InvestorStatus | null {
+    const group = this.groups.get(record.groupId);
+    if (!group) {
+      return null;
     }
+    const schedule = this.resolveSchedule(group, record.scheduleOverrides);
+    const total = BigInt(record.totalAllocation);
+    const revoked = record.revokedAtNs !== undefined;
+    // A revoked allocation is broken down as the original one was at revocation time.
+    const breakdown = this.computeVestedBreakdown(
+      revoked ? total + BigInt(record.revokedAmount ?? '0') : total,
+      schedule,
+      this.vestingTimestamp(
+        accountId,
+        record.groupId,
+        schedule,
+        revoked ? BigInt(record.revokedAtNs!) : now,
+      ),
+    );
+    const vested = this.vestedAt(accountId, record, now);
+    const vestedBasisPoints =
+      total > BigInt(0) ? (vested * BASIS_POINTS_DENOMINATOR) / total : BigInt(0);
+    const shift = now - this.vestingTimestamp(accountId, record.groupId, schedule, now);
+    const [cliffEnd, vestingEnd] = scheduleEnds(schedule);
+    const [claimed, pending] = this.splitClaimed(record);
+    return {
+      account_id: accountId,
+      token_id: tokenId,
+      group_id: record.groupId,
+      schedule,
+      total_allocation: record.totalAllocation,
+      vested: vested.toString(),
+      vested_breakdown: {
+        initial_claim: breakdown.initialClaim.toString(),
+        post_cliff: breakdown.postCliff.toString(),
+        linear: breakdown.linear.toString(),
+        checkpoints: breakdown.checkpoints.toString(),
+      },
+      claimed: claimed.toString(),
+      pending: pending.toString(),
+      claimable: this.allowedClaimable(accountId, tokenId, now).toString(),
+      locked: (total - vested).toString(),
+      iou: record.iou ?? '0',
+      vested_basis_points: vestedBasisPoints.toString(),
+      cliff_end_ns: (cliffEnd + shift).toString(),
+      vesting_end_ns: (vestingEnd + shift).toString(),
+      last_claim_at_ns: record.lastClaimAtNs ?? null,
+      revoked,
+    };
   }
 
-  private serializeGroups(): Record<string, GroupConfigStored> {
-    const snapshot: Record<string, GroupConfigStored> = {};
-    for (const [id, config] of this.groups.toArray()) {
-      snapshot[id] = config;
-    }
-    return snapshot;
+  private toTokenView(tokenId: string): TokenView {
+    const ledger = this.ledger(tokenId);
+    return {
+      token_id: tokenId,
+      pool_balance: ledger.poolBalance,
+      total_deposited: ledger.totalDeposited,
+      total_claimed: ledger.totalClaimed,
+      total_withdrawn: ledger.totalWithdrawn,
+      total_committed: ledger.totalCommitted,
+      total_iou: ledger.totalIou,
+      total_earmarked: ledger.totalEarmarked,
+      min_deposit: this.minDeposits.get(tokenId) ?? '0',
+    };
+  }
+
+  private toGroupView(groupId: string): GroupView {
+    const stats = this.groupStats.get(groupId);
+    return {
+      group_id: groupId,
+      config: this.groups.get(groupId),
+      investor_count: stats ? stats.investorCount : 0,
+      total_allocation: stats ? stats.totalAllocation : '0',
+      total_claimed: stats ? stats.totalClaimed : '0',
+      earmarked: this.earmarkOf(groupId).toString(),
+    };
   }
 
   private setInitialClaimConfig({
@@ -513,6 +4828,112 @@ class InvestorVesting {
     }
   }
 
+  private pauseKey(scope: PauseScope, target?: string): string {
+    if (!PAUSE_SCOPES.includes(scope)) {
+      throw new Error(`Unknown pause scope ${scope}`);
+    }
+    if (scope === 'group_claims' || scope === 'account_claims') {
+      if (!target) {
+        throw new Error(`target is required for ${scope}`);
+      }
+      return `${scope}:${target}`;
+    }
+    if (target !== undefined) {
+      throw new Error(`target is not supported for ${scope}`);
+    }
+    return scope;
+  }
+
+  private isPauseActive(pause: PauseRecord, timestamp: bigint): boolean {
+    return pause.expiresAtNs === null || timestamp < BigInt(pause.expiresAtNs);
+  }
+
+  private pausedDuration(pause: PauseRecord, timestamp: bigint): bigint {
+    const start = BigInt(pause.pausedAtNs);
+    const expiry = pause.expiresAtNs === null ? timestamp : BigInt(pause.expiresAtNs);
+    const end = expiry < timestamp ? expiry : timestamp;
+    return end > start ? end - start : BigInt(0);
+  }
+
+  private settlePause(key: string, pause: PauseRecord, timestamp: bigint): bigint {
+    const duration = this.pausedDuration(pause, timestamp);
+    if (pause.excludeFromVesting && duration > BigInt(0)) {
+      const start = BigInt(pause.pausedAtNs);
+      const settled = this.excludedPauses.get(key) ?? [];
+      settled.push({ startNs: start.toString(), endNs: (start + duration).toString() });
+      this.excludedPauses.set(key, settled);
+    }
+    this.pauses.remove(key);
+    return duration;
+  }
+
+  private activePauses(): PauseView[] {
+    const now = BigInt(near.blockTimestamp());
+    const active: PauseView[] = [];
+    for (const [, pause] of this.pauses.toArray()) {
+      if (!this.isPauseActive(pause, now)) {
+        continue;
+      }
+      active.push({
+        scope: pause.scope,
+        target: pause.target,
+        reason: pause.reason,
+        paused_at_ns: pause.pausedAtNs,
+        expires_at_ns: pause.expiresAtNs,
+        exclude_from_vesting: pause.excludeFromVesting,
+      });
+    }
+    return active;
+  }
+
+  private assertNotPaused(key: string): void {
+    const pause = this.pauses.get(key);
+    if (pause && this.isPauseActive(pause, BigInt(near.blockTimestamp()))) {
+      throw new Error(`Paused (${key}): ${pause.reason}`);
+    }
+  }
+
+  private claimsPaused(accountId: string, groupId: string): boolean {
+    const now = BigInt(near.blockTimestamp());
+    return [
+      this.pauseKey('claims'),
+      this.pauseKey('group_claims', groupId),
+      this.pauseKey('account_claims', accountId),
+    ].some((key) => {
+      const pause = this.pauses.get(key);
+      return pause !== null && this.isPauseActive(pause, now);
+    });
+  }
+
+  private assertClaimsNotPaused(accountId: string, groupId: string): void {
+    this.assertNotPaused(this.pauseKey('claims'));
+    this.assertNotPaused(this.pauseKey('group_claims', groupId));
+    this.assertNotPaused(this.pauseKey('account_claims', accountId));
+  }
+
+  private roleAccounts(role: Role): UnorderedSet<string> {
+    return (
+      this.roleMembers.get(role, { reconstructor: UnorderedSet.reconstruct }) ??
+      new UnorderedSet<string>(`role_accounts:${role}:`)
+    );
+  }
+
+  private hasRole(role: Role, accountId: string): boolean {
+    return accountId === this.owner || this.roleAccounts(role).contains(accountId);
+  }
+
+  private assertRole(role: Role): void {
+    if (!this.hasRole(role, near.predecessorAccountId())) {
+      throw new Error(`Only owner or ${role} can call this function`);
+    }
+  }
+
+  private assertKnownRole(role: Role): void {
+    if (!ROLES.includes(role)) {
+      throw new Error(`Unknown role ${role}`);
+    }
+  }
+
   private assertOneYocto(): void {
     if (near.attachedDeposit() !== ONE_YOCTO) {
       throw new Error('Requires attached deposit of exactly 1 yoctoNEAR');
@@ -525,9 +4946,18 @@ class InvestorVesting {
     }
   }
 
-  private assertTokenCaller(): void {
-    if (near.predecessorAccountId() !== this.tokenAccountId) {
-      throw new Error('Only the configured token contract can deposit funds');
+  // Returns the calling token, which must be one the contract vests.
+  private assertTokenCaller(): string {
+    const tokenId = near.predecessorAccountId();
+    if (tokenId === NATIVE_TOKEN_ID || !this.tokens.get(tokenId)) {
+      throw new Error('Only a configured token contract can deposit funds');
+    }
+    return tokenId;
+  }
+
+  private assertKnownToken(tokenId: string): void {
+    if (!this.tokens.get(tokenId)) {
+      throw new Error(`Unknown token_id ${tokenId}`);
     }
   }
 }
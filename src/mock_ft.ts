@@ -4,6 +4,10 @@ const ONE_YOCTO = BigInt(1);
 const NO_DEPOSIT = BigInt(0);
 const GAS_FOR_FT_ON_TRANSFER = BigInt('50000000000000');
 const GAS_FOR_RESOLVE = BigInt('20000000000000');
+const GAS_FOR_FT_TRANSFER_CALL = BigInt('10000000000000');
+const STORAGE_BALANCE_MIN = BigInt('1000000000000000000000'); // 0.001 NEAR
+const FT_EVENT_STANDARD = 'nep141';
+const FT_EVENT_VERSION = '1.0.0';
 
 type StorageBalance = {
   total: string;
@@ -20,6 +24,32 @@ type Metadata = {
   decimals: number;
 };
 
+type FtMintEvent = {
+  owner_id: string;
+  amount: string;
+  memo?: string;
+};
+
+type FtTransferEvent = {
+  old_owner_id: string;
+  new_owner_id: string;
+  amount: string;
+  memo?: string;
+};
+
+function emitFtEvent(event: 'ft_mint', data: FtMintEvent[]): void;
+function emitFtEvent(event: 'ft_transfer', data: FtTransferEvent[]): void;
+function emitFtEvent(event: string, data: unknown[]): void {
+  near.log(
+    `EVENT_JSON:${JSON.stringify({
+      standard: FT_EVENT_STANDARD,
+      version: FT_EVENT_VERSION,
+      event,
+      data,
+    })}`,
+  );
+}
+
 function assertOneYocto(): void {
   if (near.attachedDeposit() !== ONE_YOCTO) {
     throw new Error('Requires attached deposit of exactly 1 yoctoNEAR');
@@ -76,7 +106,7 @@ class MockFungibleToken {
     };
 
     this.setBalance(owner_id, supply);
-    near.log(`Minted ${total_supply} tokens to ${owner_id}`);
+    emitFtEvent('ft_mint', [{ owner_id, amount: supply.toString(), memo: 'initial supply' }]);
   }
 
   @view({})
@@ -102,12 +132,12 @@ class MockFungibleToken {
     if (!(account_id in this.balances)) {
       return null;
     }
-    return { total: '0', available: '0' };
+    return { total: STORAGE_BALANCE_MIN.toString(), available: '0' };
   }
 
   @view({})
   storage_balance_bounds(): { min: string; max: string | null } {
-    return { min: '0', max: null };
+    return { min: STORAGE_BALANCE_MIN.toString(), max: STORAGE_BALANCE_MIN.toString() };
   }
 
   @call({ payableFunction: true })
@@ -118,11 +148,22 @@ class MockFungibleToken {
     registration_only?: boolean;
   }): StorageBalance {
     const target = account_id ?? near.predecessorAccountId();
+    const deposit = near.attachedDeposit();
+    // Registration costs exactly the minimum; the rest, or all of it if already registered,
+    // goes back to the caller.
+    let refund = deposit;
     if (!(target in this.balances)) {
+      if (deposit < STORAGE_BALANCE_MIN) {
+        throw new Error(`Registration requires a deposit of ${STORAGE_BALANCE_MIN} yoctoNEAR`);
+      }
       this.balances[target] = '0';
+      refund = deposit - STORAGE_BALANCE_MIN;
+      near.log(`Registered ${target}`);
+    }
+    if (refund > BigInt(0)) {
+      NearPromise.new(near.predecessorAccountId()).transfer(refund).build();
     }
-    near.log(`Registered ${target}`);
-    return { total: '0', available: '0' };
+    return { total: STORAGE_BALANCE_MIN.toString(), available: '0' };
   }
 
   @call({ payableFunction: true })
@@ -142,7 +183,9 @@ class MockFungibleToken {
       throw new Error('Transfer amount must be positive');
     }
     this.internalTransfer(sender, receiver_id, transferAmount);
-    near.log(`Transfer ${amount} from ${sender} to ${receiver_id}${memo ? ` (${memo})` : ''}`);
+    emitFtEvent('ft_transfer', [
+      { old_owner_id: sender, new_owner_id: receiver_id, amount, ...(memo ? { memo } : {}) },
+    ]);
   }
 
   @call({ payableFunction: true })
@@ -165,10 +208,16 @@ class MockFungibleToken {
     }
 
     this.internalTransfer(sender, receiver_id, transferAmount);
-    near.log(
-      `Transfer call of ${amount} from ${sender} to ${receiver_id}${memo ? ` (${memo})` : ''}`,
-    );
+    emitFtEvent('ft_transfer', [
+      { old_owner_id: sender, new_owner_id: receiver_id, amount, ...(memo ? { memo } : {}) },
+    ]);
 
+    // Like the reference NEP-141 implementation, the receiver gets all gas not needed here.
+    const receiverGas =
+      near.prepaidGas() - near.usedGas() - GAS_FOR_RESOLVE - GAS_FOR_FT_TRANSFER_CALL;
+    if (receiverGas < GAS_FOR_FT_ON_TRANSFER) {
+      throw new Error('Not enough gas attached for ft_transfer_call');
+    }
     const promise = NearPromise.new(receiver_id).functionCall(
       'ft_on_transfer',
       JSON.stringify({
@@ -177,7 +226,7 @@ class MockFungibleToken {
         msg,
       }),
       NO_DEPOSIT,
-      GAS_FOR_FT_ON_TRANSFER,
+      receiverGas,
     );
 
     const resolve = NearPromise.new(near.currentAccountId()).functionCall(
@@ -232,7 +281,14 @@ class MockFungibleToken {
 
     if (unused > BigInt(0)) {
       this.internalTransfer(receiver_id, sender_id, unused);
-      near.log(`Refunded ${unused.toString()} tokens to ${sender_id}`);
+      emitFtEvent('ft_transfer', [
+        {
+          old_owner_id: receiver_id,
+          new_owner_id: sender_id,
+          amount: unused.toString(),
+          memo: 'refund',
+        },
+      ]);
     }
 
     const used = transferred - unused;
@@ -244,6 +300,9 @@ class MockFungibleToken {
     if (sender === receiver) {
       throw new Error('Transfer to self is not allowed');
     }
+    if (!(receiver in this.balances)) {
+      throw new Error(`The account ${receiver} is not registered`);
+    }
     const senderBalance = this.getBalance(sender);
     if (senderBalance < amount) {
       throw new Error('Insufficient balance');
@@ -254,12 +313,7 @@ class MockFungibleToken {
   }
 
   private getBalance(accountId: string): bigint {
-    const stored = this.balances[accountId];
-    if (stored === undefined) {
-      this.balances[accountId] = '0';
-      return BigInt(0);
-    }
-    return BigInt(stored);
+    return BigInt(this.balances[accountId] ?? '0');
   }
 
   private setBalance(accountId: string, amount: bigint): void {